@@ -1,15 +1,168 @@
 import { serve } from "bun";
+import { mkdir, readdir } from "fs/promises";
+import path from "path";
 import index from "./index.html";
 
+// Directory the viewer lists animation files from (override with ASSETS_DIR).
+const ASSETS_DIR = path.resolve(process.env.ASSETS_DIR ?? "./assets");
+const ASSET_PATTERN = /\.(fbx|bvh|glb)$/i;
+
+// Bone style presets are saved here as <name>.json (override with PRESETS_DIR).
+const PRESETS_DIR = path.resolve(process.env.PRESETS_DIR ?? "./presets");
+const PRESET_NAME = /^[\w-]{1,64}$/;
+
+// Exports are written here, one folder per export (override with EXPORTS_DIR).
+const EXPORTS_DIR = path.resolve(process.env.EXPORTS_DIR ?? "./exports");
+
+// Folder and file names come from the browser: keep them to a safe charset
+function cleanSegment(text: string): string {
+  return text.replace(/[^\w.-]+/g, "-").replace(/^[-.]+|-+$/g, "");
+}
+
+function safeSegment(text: string, fallback: string): string {
+  return cleanSegment(text).slice(0, 64).replace(/[-.]+$/, "") || fallback;
+}
+
+// Well under the usual 255-byte file name limit, leaving room for the folder path
+const MAX_FILE_NAME = 160;
+
+/**
+ * Safe file name that keeps its extension: only the stem is shortened.
+ * Null when even the extension alone doesn't fit.
+ */
+function safeFileName(name: string): string | null {
+  const cleaned = cleanSegment(path.basename(name)) || "file";
+  if (cleaned.length <= MAX_FILE_NAME) return cleaned;
+  const dot = cleaned.lastIndexOf(".");
+  const ext = dot > 0 ? cleaned.slice(dot) : "";
+  const stem = cleaned.slice(0, dot > 0 ? dot : cleaned.length).slice(0, MAX_FILE_NAME - ext.length).replace(/[-.]+$/, "");
+  return stem ? stem + ext : null;
+}
+
+function timestamp(date: Date): string {
+  const pad = (n: number) => String(n).padStart(2, "0");
+  return `${date.getFullYear()}${pad(date.getMonth() + 1)}${pad(date.getDate())}`
+    + `-${pad(date.getHours())}${pad(date.getMinutes())}${pad(date.getSeconds())}`;
+}
+
+/** Creates a fresh export folder, suffixing -2, -3, … if the name is taken. */
+async function createExportFolder(base: string): Promise<string> {
+  for (let n = 1; ; n++) {
+    const dir = path.join(EXPORTS_DIR, n === 1 ? base : `${base}-${n}`);
+    try {
+      await mkdir(dir, { recursive: false });
+      return dir;
+    } catch (err) {
+      if ((err as NodeJS.ErrnoException).code !== "EEXIST") throw err;
+    }
+  }
+}
+
 const server = serve({
   routes: {
-    "/walking.fbx": async () => {
-      const file = Bun.file("./Walking.fbx");
+    "/api/assets": async () => {
+      const entries = await readdir(ASSETS_DIR, { withFileTypes: true }).catch(() => []);
+      const files = entries
+        .filter(e => e.isFile() && ASSET_PATTERN.test(e.name))
+        .map(e => e.name)
+        .sort((a, b) => a.localeCompare(b));
+      return Response.json({ files });
+    },
+
+    "/assets/:name": async req => {
+      // Only plain file names — never let a request escape ASSETS_DIR
+      const name = path.basename(req.params.name);
+      const file = Bun.file(path.join(ASSETS_DIR, name));
+      if (!ASSET_PATTERN.test(name) || !(await file.exists())) {
+        return new Response("Not found", { status: 404 });
+      }
       return new Response(file, {
         headers: { "Content-Type": "application/octet-stream" },
       });
     },
 
+    "/api/presets": async () => {
+      const entries = await readdir(PRESETS_DIR, { withFileTypes: true }).catch(() => []);
+      const presets = entries
+        .filter(e => e.isFile() && e.name.endsWith(".json"))
+        .map(e => e.name.slice(0, -".json".length))
+        .filter(name => PRESET_NAME.test(name))
+        .sort((a, b) => a.localeCompare(b));
+      return Response.json({ presets });
+    },
+
+    "/api/presets/:name": {
+      async GET(req) {
+        const { name } = req.params;
+        const file = Bun.file(path.join(PRESETS_DIR, `${name}.json`));
+        if (!PRESET_NAME.test(name) || !(await file.exists())) {
+          return new Response("Not found", { status: 404 });
+        }
+        return new Response(file, { headers: { "Content-Type": "application/json" } });
+      },
+      async PUT(req) {
+        // The name pattern has no separators or dots, so it can't escape PRESETS_DIR
+        const { name } = req.params;
+        if (!PRESET_NAME.test(name)) {
+          return new Response("Invalid preset name", { status: 400 });
+        }
+        let preset: unknown;
+        try {
+          preset = await req.json();
+        } catch {
+          return new Response("Body must be JSON", { status: 400 });
+        }
+        await mkdir(PRESETS_DIR, { recursive: true });
+        await Bun.write(path.join(PRESETS_DIR, `${name}.json`), JSON.stringify(preset, null, 2));
+        return Response.json({ name });
+      },
+    },
+
+    "/api/exports": {
+      async POST(req) {
+        let form: FormData;
+        try {
+          form = await req.formData();
+        } catch {
+          return new Response("Body must be multipart form data", { status: 400 });
+        }
+        const character = safeSegment(String(form.get("character") ?? ""), "character");
+        const clip = safeSegment(String(form.get("clip") ?? ""), "clip");
+        const kind = safeSegment(String(form.get("kind") ?? ""), "export");
+        const files = form.getAll("files").filter((f): f is File => f instanceof File);
+        if (files.length === 0) {
+          return new Response("No files", { status: 400 });
+        }
+
+        const cleaned = files.map(f => safeFileName(f.name));
+        const tooLong = files.filter((_, i) => cleaned[i] === null).map(f => f.name);
+        if (tooLong.length > 0) {
+          return new Response(`File names too long (max ${MAX_FILE_NAME} characters): ${tooLong.join(", ")}`, { status: 400 });
+        }
+        const names = cleaned as string[];
+        const clashes = names.filter((n, i) => n === "manifest.json" || names.indexOf(n) !== i);
+        if (clashes.length > 0) {
+          return new Response(`File names must be unique and not manifest.json: ${[...new Set(clashes)].join(", ")}`, { status: 400 });
+        }
+
+        const createdAt = new Date();
+        await mkdir(EXPORTS_DIR, { recursive: true });
+        const dir = await createExportFolder(`${character}_${clip}_${kind}_${timestamp(createdAt)}`);
+        await Promise.all(files.map((f, i) => Bun.write(path.join(dir, names[i]!), f)));
+
+        const manifest = {
+          character,
+          clip,
+          kind,
+          createdAt: createdAt.toISOString(),
+          files: files.map((f, i) => ({ name: names[i], bytes: f.size, type: f.type || null })),
+        };
+        await Bun.write(path.join(dir, "manifest.json"), JSON.stringify(manifest, null, 2));
+        const relative = path.relative(process.cwd(), dir);
+        return Response.json({ folder: relative.startsWith("..") ? dir : relative, files: names });
+      },
+    },
+
     // Serve index.html for all unmatched routes.
     "/*": index,
 
@@ -0,0 +1,81 @@
+import { useState } from "react";
+import type { AccessoryDef } from "./accessories";
+
+interface Props {
+  registry: AccessoryDef[];
+  enabled: string[];
+  /** Stripped bone names of the current rig — targets for uploaded models. */
+  boneNames: string[];
+  onToggle: (id: string, on: boolean) => void;
+  onAddModel: (file: File, bone: string) => void;
+}
+
+export function AccessoryPanel({ registry, enabled, boneNames, onToggle, onAddModel }: Props) {
+  const [bone, setBone] = useState("RightHand");
+  const target = boneNames.includes(bone) ? bone : (boneNames[0] ?? "");
+
+  return (
+    <div style={sectionStyle}>
+      <span style={{ fontSize: 12, color: "#889" }}>Accessories</span>
+      {registry.map((a) => {
+        const missing = !boneNames.includes(a.bone);
+        return (
+          <label key={a.id} style={{ ...checkboxLabelStyle, opacity: missing ? 0.5 : 1 }} title={`${a.bone}${missing ? " (not in this rig)" : ""}`}>
+            <input
+              type="checkbox"
+              checked={enabled.includes(a.id)}
+              disabled={missing}
+              onChange={(e) => onToggle(a.id, e.target.checked)}
+            />
+            {a.label}
+          </label>
+        );
+      })}
+      <div style={{ display: "flex", gap: 6, alignItems: "center" }}>
+        <select value={target} onChange={(e) => setBone(e.target.value)} style={selectStyle}>
+          {boneNames.map((name) => (
+            <option key={name} value={name}>{name}</option>
+          ))}
+        </select>
+        <label style={smallBtnStyle}>
+          Add GLB/OBJ
+          <input
+            type="file"
+            accept=".glb,.gltf,.obj"
+            onChange={(e) => {
+              const file = e.target.files?.[0];
+              if (file && target) onAddModel(file, target);
+              e.target.value = "";
+            }}
+            style={{ display: "none" }}
+          />
+        </label>
+      </div>
+    </div>
+  );
+}
+
+// ── Inline styles ────────────────────────────────────────────────────────────
+
+const sectionStyle: React.CSSProperties = {
+  display: "flex", flexDirection: "column", gap: 4,
+  paddingTop: 6, borderTop: "1px solid #2a2a4a",
+};
+
+const checkboxLabelStyle: React.CSSProperties = {
+  display: "flex", alignItems: "center", gap: 8,
+  fontSize: 12, color: "#ccd", cursor: "pointer",
+};
+
+const selectStyle: React.CSSProperties = {
+  flex: 1, minWidth: 0, fontSize: 11, padding: "2px 4px",
+  background: "#223", color: "#ccd",
+  border: "1px solid #334", borderRadius: 4,
+};
+
+const smallBtnStyle: React.CSSProperties = {
+  fontSize: 11, padding: "2px 8px",
+  background: "#223", color: "#ccd",
+  border: "1px solid #334", borderRadius: 4, cursor: "pointer",
+  whiteSpace: "nowrap",
+};
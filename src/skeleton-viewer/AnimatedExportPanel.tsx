@@ -0,0 +1,103 @@
+import { ANIMATED_SCALES, type AnimatedExportSettings } from "./animatedExport";
+
+interface Props {
+  settings: AnimatedExportSettings;
+  onChange: (settings: AnimatedExportSettings) => void;
+  onExport: () => void;
+  busy: boolean;
+}
+
+const toHex = (c: number) => `#${c.toString(16).padStart(6, "0")}`;
+
+export function AnimatedExportPanel({ settings, onChange, onExport, busy }: Props) {
+  function set(patch: Partial<AnimatedExportSettings>) {
+    onChange({ ...settings, ...patch });
+  }
+
+  const transparent = settings.background === null;
+
+  return (
+    <div style={sectionStyle}>
+      <div style={rowStyle}>
+        <label style={checkStyle}>
+          <input type="checkbox" checked={settings.gif} onChange={(e) => set({ gif: e.target.checked })} />
+          GIF
+        </label>
+        <label style={checkStyle}>
+          <input type="checkbox" checked={settings.apng} onChange={(e) => set({ apng: e.target.checked })} />
+          APNG
+        </label>
+        <select
+          value={settings.scale}
+          onChange={(e) => set({ scale: Number(e.target.value) })}
+          title="Upscale factor"
+          style={inputStyle}
+        >
+          {ANIMATED_SCALES.map((s) => (
+            <option key={s} value={s}>{s}×</option>
+          ))}
+        </select>
+      </div>
+      <div style={rowStyle}>
+        <label style={checkStyle}>
+          <input
+            type="checkbox"
+            checked={transparent}
+            onChange={(e) => set({ background: e.target.checked ? null : 0x16161e })}
+          />
+          Transparent
+        </label>
+        {!transparent && (
+          <input
+            type="color"
+            value={toHex(settings.background!)}
+            onChange={(e) => set({ background: parseInt(e.target.value.slice(1), 16) })}
+            title="Background color"
+            style={colorStyle}
+          />
+        )}
+      </div>
+      <button
+        onClick={onExport}
+        disabled={busy || (!settings.gif && !settings.apng)}
+        style={btnStyle}
+      >
+        {busy ? "Encoding…" : "Export Animated Previews"}
+      </button>
+    </div>
+  );
+}
+
+// ── Inline styles ────────────────────────────────────────────────────────────
+
+const sectionStyle: React.CSSProperties = {
+  display: "flex", flexDirection: "column", gap: 4,
+  marginTop: 8, paddingTop: 8,
+  borderTop: "1px solid #2a2a4a",
+};
+
+const rowStyle: React.CSSProperties = {
+  display: "flex", alignItems: "center", gap: 8,
+};
+
+const checkStyle: React.CSSProperties = {
+  display: "flex", alignItems: "center", gap: 4,
+  fontSize: 11, color: "#aab", cursor: "pointer",
+};
+
+const inputStyle: React.CSSProperties = {
+  marginLeft: "auto", fontSize: 11, padding: "2px 4px",
+  background: "#223", color: "#ccd",
+  border: "1px solid #334", borderRadius: 4,
+};
+
+const colorStyle: React.CSSProperties = {
+  width: 28, height: 20, padding: 0,
+  background: "#223", border: "1px solid #334", borderRadius: 4,
+};
+
+const btnStyle: React.CSSProperties = {
+  width: "100%", fontSize: 11, padding: "6px 0",
+  background: "#114422", color: "#88ffbb",
+  border: "1px solid #226633", borderRadius: 4, cursor: "pointer",
+};
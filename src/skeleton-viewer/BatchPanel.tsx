@@ -0,0 +1,208 @@
+import { useState } from "react";
+import { parseBatchJob, type BatchItem, type BatchProgress } from "./batchExport";
+
+interface Props {
+  /** Files in the server's assets directory. */
+  assets: string[];
+  running: boolean;
+  progress: BatchProgress[];
+  includePositionMaps: boolean;
+  onIncludePositionMapsChange: (on: boolean) => void;
+  onRun: (items: BatchItem[]) => void;
+  onCancel: () => void;
+}
+
+const parseClips = (text: string) => {
+  const clips = text.split(",").map((c) => c.trim()).filter(Boolean);
+  return clips.length ? clips : null;
+};
+
+export function BatchPanel({
+  assets,
+  running,
+  progress,
+  includePositionMaps,
+  onIncludePositionMapsChange,
+  onRun,
+  onCancel,
+}: Props) {
+  // Selected asset → comma-separated clip names (empty = all clips)
+  const [selected, setSelected] = useState<Record<string, string>>({});
+  const [files, setFiles] = useState<File[]>([]);
+  const [jobError, setJobError] = useState<string | null>(null);
+
+  function toggle(name: string, on: boolean) {
+    setSelected((s) => {
+      const next = { ...s };
+      if (on) next[name] = "";
+      else delete next[name];
+      return next;
+    });
+  }
+
+  function runSelection() {
+    const items: BatchItem[] = [
+      ...assets.filter((a) => a in selected).map((name) => ({
+        source: { kind: "asset" as const, name },
+        clips: parseClips(selected[name]!),
+      })),
+      ...files.map((file) => ({ source: { kind: "file" as const, file }, clips: null })),
+    ];
+    if (items.length > 0) onRun(items);
+  }
+
+  async function runJobFile(file: File | undefined) {
+    if (!file) return;
+    try {
+      setJobError(null);
+      onRun(parseBatchJob(await file.text()));
+    } catch (err) {
+      setJobError(err instanceof Error ? err.message : String(err));
+    }
+  }
+
+  const count = Object.keys(selected).length + files.length;
+  const done = progress.filter((p) => p.status === "done" || p.status === "error").length;
+
+  return (
+    <div style={panelStyle}>
+      <div style={titleStyle}>Batch Export</div>
+
+      <div style={listStyle}>
+        {assets.map((name) => (
+          <div key={name} style={rowStyle}>
+            <label style={{ ...rowStyle, flex: 1, minWidth: 0 }}>
+              <input
+                type="checkbox"
+                checked={name in selected}
+                disabled={running}
+                onChange={(e) => toggle(name, e.target.checked)}
+              />
+              <span style={nameStyle} title={name}>{name}</span>
+            </label>
+            {name in selected && (
+              <input
+                type="text"
+                value={selected[name]}
+                placeholder="all clips"
+                title="Clip names, comma-separated (empty = all clips)"
+                disabled={running}
+                onChange={(e) => setSelected((s) => ({ ...s, [name]: e.target.value }))}
+                style={{ ...inputStyle, width: 90, flex: "none" }}
+              />
+            )}
+          </div>
+        ))}
+        {assets.length === 0 && <div style={hintStyle}>No files in the assets directory</div>}
+      </div>
+
+      <label style={rowStyle}>
+        <span style={hintStyle}>Add files</span>
+        <input
+          type="file"
+          multiple
+          accept=".fbx,.bvh,.glb"
+          disabled={running}
+          onChange={(e) => setFiles([...(e.target.files ?? [])])}
+          style={{ fontSize: 11, color: "#889", minWidth: 0 }}
+        />
+      </label>
+      <label style={rowStyle}>
+        <input
+          type="checkbox"
+          checked={includePositionMaps}
+          disabled={running}
+          onChange={(e) => onIncludePositionMapsChange(e.target.checked)}
+        />
+        <span style={hintStyle}>Include position maps</span>
+      </label>
+
+      <div style={rowStyle}>
+        {running ? (
+          <button onClick={onCancel} style={btnStyle}>Cancel</button>
+        ) : (
+          <button onClick={runSelection} disabled={count === 0} style={btnStyle}>
+            Export {count} file{count === 1 ? "" : "s"}
+          </button>
+        )}
+        <label style={{ ...btnStyle, textAlign: "center", opacity: running ? 0.5 : 1 }}>
+          Run job file…
+          <input
+            type="file"
+            accept=".json"
+            disabled={running}
+            onChange={(e) => { void runJobFile(e.target.files?.[0]); e.target.value = ""; }}
+            style={{ display: "none" }}
+          />
+        </label>
+      </div>
+      {jobError && <div style={{ ...hintStyle, color: "#ff6666" }}>{jobError}</div>}
+
+      {progress.length > 0 && (
+        <div style={listStyle}>
+          <div style={hintStyle}>{done} / {progress.length} files</div>
+          {progress.map((p, i) => (
+            <div key={i} style={{ fontSize: 11, color: STATUS_COLORS[p.status] }} title={p.error}>
+              {STATUS_ICONS[p.status]} {p.label}
+              {p.error && <div style={{ color: "#ff6666", paddingLeft: 14 }}>{p.error}</div>}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+const STATUS_ICONS: Record<BatchProgress["status"], string> = {
+  pending: "·", running: "…", done: "✓", error: "✕",
+};
+
+const STATUS_COLORS: Record<BatchProgress["status"], string> = {
+  pending: "#667", running: "#ccd", done: "#88ffbb", error: "#ffaa66",
+};
+
+// ── Inline styles ────────────────────────────────────────────────────────────
+
+const panelStyle: React.CSSProperties = {
+  position: "absolute", top: 16, right: 226,
+  width: 260, maxHeight: "calc(100vh - 32px)", overflowY: "auto",
+  display: "flex", flexDirection: "column", gap: 6,
+  background: "rgba(10,10,20,0.85)",
+  padding: 12, borderRadius: 8,
+  border: "1px solid #2a2a4a",
+  backdropFilter: "blur(4px)",
+};
+
+const titleStyle: React.CSSProperties = {
+  color: "#7788aa", fontSize: 11, marginBottom: 4, textAlign: "center",
+};
+
+const listStyle: React.CSSProperties = {
+  display: "flex", flexDirection: "column", gap: 4,
+  paddingTop: 6, borderTop: "1px solid #2a2a4a",
+};
+
+const rowStyle: React.CSSProperties = {
+  display: "flex", alignItems: "center", gap: 6,
+};
+
+const nameStyle: React.CSSProperties = {
+  fontSize: 11, color: "#ccd",
+  overflow: "hidden", textOverflow: "ellipsis", whiteSpace: "nowrap",
+};
+
+const hintStyle: React.CSSProperties = {
+  fontSize: 11, color: "#889",
+};
+
+const inputStyle: React.CSSProperties = {
+  minWidth: 0, fontSize: 11, padding: "2px 4px",
+  background: "#223", color: "#ccd",
+  border: "1px solid #334", borderRadius: 4,
+};
+
+const btnStyle: React.CSSProperties = {
+  flex: 1, fontSize: 11, padding: "6px 0",
+  background: "#114422", color: "#88ffbb",
+  border: "1px solid #226633", borderRadius: 4, cursor: "pointer",
+};
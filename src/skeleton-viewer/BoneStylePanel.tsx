@@ -0,0 +1,220 @@
+import { useEffect, useState } from "react";
+import { DEFAULT_BONE_STYLE, type BoneStyle } from "./boneConfig";
+import { boneStyleToJSON, listPresets, loadPreset, parseBoneStyle, savePreset } from "./boneStyle";
+import { TORSO_BONES } from "./boneVisuals";
+import { triggerDownload } from "./exportSink";
+
+interface Props {
+  style: BoneStyle;
+  onChange: (style: BoneStyle) => void;
+}
+
+// Segment bones in config order; fingers share one radius and the LeftArm color
+const BONES = [...new Set([...Object.keys(DEFAULT_BONE_STYLE.colors), ...Object.keys(DEFAULT_BONE_STYLE.radii)])];
+
+const toHex = (c: number) => `#${c.toString(16).padStart(6, "0")}`;
+const fromHex = (v: string) => parseInt(v.slice(1), 16);
+
+export function BoneStylePanel({ style, onChange }: Props) {
+  const [presets, setPresets] = useState<string[]>([]);
+  const [presetName, setPresetName] = useState("my-style");
+  const [message, setMessage] = useState("");
+
+  useEffect(() => {
+    listPresets().then(setPresets, () => setPresets([]));
+  }, []);
+
+  function setBone(bone: string, patch: { color?: number; radius?: number }) {
+    onChange({
+      ...style,
+      colors: patch.color != null ? { ...style.colors, [bone]: patch.color } : style.colors,
+      radii: patch.radius != null ? { ...style.radii, [bone]: patch.radius } : style.radii,
+    });
+  }
+
+  async function handleSave() {
+    const name = presetName.trim().replace(/[^\w-]+/g, "-").slice(0, 64);
+    if (!name) return;
+    try {
+      await savePreset(name, style);
+      setPresets(await listPresets());
+      setMessage(`Saved ${name}`);
+    } catch {
+      setMessage("Save failed");
+    }
+  }
+
+  async function handleLoad(name: string) {
+    if (!name) return;
+    try {
+      onChange(await loadPreset(name));
+      setPresetName(name);
+      setMessage(`Loaded ${name}`);
+    } catch {
+      setMessage(`Could not load ${name}`);
+    }
+  }
+
+  async function handleFile(file: File | undefined) {
+    if (!file) return;
+    try {
+      onChange(parseBoneStyle(await file.text()));
+      setMessage(`Loaded ${file.name}`);
+    } catch {
+      setMessage(`${file.name} is not a style preset`);
+    }
+  }
+
+  function handleDownload() {
+    const blob = new Blob([boneStyleToJSON(style)], { type: "application/json" });
+    triggerDownload(blob, `${presetName || "bone-style"}.json`);
+  }
+
+  return (
+    <div style={panelStyle}>
+      <div style={titleStyle}>Bone Style</div>
+
+      <div style={rowStyle}>
+        <span style={labelStyle}>Joints</span>
+        <input
+          type="color"
+          value={toHex(style.jointColor)}
+          onChange={(e) => onChange({ ...style, jointColor: fromHex(e.target.value) })}
+          style={colorStyle}
+        />
+        <RadiusInput value={style.jointRadius} onChange={(v) => onChange({ ...style, jointRadius: v })} />
+      </div>
+      <div style={rowStyle}>
+        <span style={labelStyle}>Fingers</span>
+        <span style={{ width: 28, flex: "none" }} />
+        <RadiusInput value={style.fingerRadius} onChange={(v) => onChange({ ...style, fingerRadius: v })} />
+      </div>
+      <label style={rowStyle}>
+        <input
+          type="checkbox"
+          checked={style.autoTorso}
+          onChange={(e) => onChange({ ...style, autoTorso: e.target.checked })}
+        />
+        <span style={{ fontSize: 11, color: "#889" }}>Torso from shoulder span</span>
+      </label>
+
+      <div style={boneListStyle}>
+        {BONES.map((bone) => (
+          <div key={bone} style={rowStyle}>
+            <span style={labelStyle} title={bone}>{bone}</span>
+            <input
+              type="color"
+              value={toHex(style.colors[bone] ?? 0x44aaff)}
+              onChange={(e) => setBone(bone, { color: fromHex(e.target.value) })}
+              style={colorStyle}
+            />
+            <RadiusInput
+              value={style.radii[bone] ?? 0.065}
+              disabled={style.autoTorso && TORSO_BONES.has(bone)}
+              onChange={(v) => setBone(bone, { radius: v })}
+            />
+          </div>
+        ))}
+      </div>
+
+      <div style={{ ...rowStyle, marginTop: 8 }}>
+        <input
+          value={presetName}
+          onChange={(e) => setPresetName(e.target.value)}
+          placeholder="preset name"
+          style={inputStyle}
+        />
+        <button onClick={handleSave} style={smallBtnStyle}>Save</button>
+      </div>
+      <div style={rowStyle}>
+        <select value="" onChange={(e) => handleLoad(e.target.value)} style={inputStyle}>
+          <option value="">{presets.length ? "Load preset…" : "No saved presets"}</option>
+          {presets.map((p) => (
+            <option key={p} value={p}>{p}</option>
+          ))}
+        </select>
+      </div>
+      <div style={rowStyle}>
+        <button onClick={handleDownload} style={smallBtnStyle}>Download</button>
+        <label style={smallBtnStyle}>
+          Open .json
+          <input
+            type="file"
+            accept=".json"
+            onChange={(e) => handleFile(e.target.files?.[0])}
+            style={{ display: "none" }}
+          />
+        </label>
+        <button onClick={() => onChange(DEFAULT_BONE_STYLE)} style={smallBtnStyle}>Reset</button>
+      </div>
+      {message && <div style={{ fontSize: 11, color: "#889" }}>{message}</div>}
+    </div>
+  );
+}
+
+function RadiusInput({ value, disabled, onChange }: { value: number; disabled?: boolean; onChange: (v: number) => void }) {
+  return (
+    <input
+      type="number"
+      title="Radius (metres)"
+      value={value}
+      step={0.005}
+      min={0.001}
+      disabled={disabled}
+      onChange={(e) => {
+        const v = e.target.valueAsNumber;
+        if (Number.isFinite(v) && v > 0) onChange(v);
+      }}
+      style={inputStyle}
+    />
+  );
+}
+
+// ── Inline styles ────────────────────────────────────────────────────────────
+
+const panelStyle: React.CSSProperties = {
+  position: "absolute", top: 16, left: 16,
+  width: 230, maxHeight: "calc(100vh - 220px)", overflowY: "auto",
+  display: "flex", flexDirection: "column", gap: 4,
+  background: "rgba(10,10,20,0.85)",
+  padding: 12, borderRadius: 8,
+  border: "1px solid #2a2a4a",
+  backdropFilter: "blur(4px)",
+};
+
+const titleStyle: React.CSSProperties = {
+  color: "#7788aa", fontSize: 11, marginBottom: 4, textAlign: "center",
+};
+
+const boneListStyle: React.CSSProperties = {
+  display: "flex", flexDirection: "column", gap: 4,
+  marginTop: 4, paddingTop: 8,
+  borderTop: "1px solid #2a2a4a",
+};
+
+const rowStyle: React.CSSProperties = {
+  display: "flex", alignItems: "center", gap: 6,
+};
+
+const labelStyle: React.CSSProperties = {
+  width: 90, fontSize: 11, color: "#7788aa",
+  overflow: "hidden", textOverflow: "ellipsis", whiteSpace: "nowrap",
+};
+
+const colorStyle: React.CSSProperties = {
+  width: 28, height: 20, padding: 0, flex: "none",
+  background: "#223", border: "1px solid #334", borderRadius: 4,
+};
+
+const smallBtnStyle: React.CSSProperties = {
+  fontSize: 11, padding: "2px 8px",
+  background: "#223", color: "#ccd",
+  border: "1px solid #334", borderRadius: 4, cursor: "pointer",
+  whiteSpace: "nowrap",
+};
+
+const inputStyle: React.CSSProperties = {
+  flex: 1, minWidth: 0, fontSize: 11, padding: "2px 4px",
+  background: "#223", color: "#ccd",
+  border: "1px solid #334", borderRadius: 4,
+};
@@ -0,0 +1,75 @@
+import { NumberField } from "./SpriteSettingsPanel";
+import type { OnionSkinSettings } from "./onionSkin";
+
+interface Props {
+  settings: OnionSkinSettings;
+  onChange: (settings: OnionSkinSettings) => void;
+}
+
+const MAX_GHOSTS = 5;
+
+const toHex = (c: number) => `#${c.toString(16).padStart(6, "0")}`;
+const clampCount = (v: number) => Math.max(0, Math.min(MAX_GHOSTS, Math.round(v)));
+const clampUnit = (v: number) => Math.max(0, Math.min(1, v));
+
+export function OnionSkinPanel({ settings, onChange }: Props) {
+  function set(patch: Partial<OnionSkinSettings>) {
+    onChange({ ...settings, ...patch });
+  }
+
+  return (
+    <div style={sectionStyle}>
+      <label style={rowStyle}>
+        <input type="checkbox" checked={settings.enabled} onChange={(e) => set({ enabled: e.target.checked })} />
+        <span style={{ fontSize: 11, color: "#aab" }}>Onion skin</span>
+      </label>
+      {settings.enabled && (
+        <>
+          <div style={rowStyle}>
+            <div style={{ flex: 1 }}>
+              <NumberField label="Before" value={settings.before} step={1} min={0} max={MAX_GHOSTS} onChange={(v) => set({ before: clampCount(v) })} />
+            </div>
+            <input
+              type="color"
+              value={toHex(settings.tintBefore)}
+              onChange={(e) => set({ tintBefore: parseInt(e.target.value.slice(1), 16) })}
+              title="Tint for earlier frames"
+              style={colorStyle}
+            />
+          </div>
+          <div style={rowStyle}>
+            <div style={{ flex: 1 }}>
+              <NumberField label="After" value={settings.after} step={1} min={0} max={MAX_GHOSTS} onChange={(v) => set({ after: clampCount(v) })} />
+            </div>
+            <input
+              type="color"
+              value={toHex(settings.tintAfter)}
+              onChange={(e) => set({ tintAfter: parseInt(e.target.value.slice(1), 16) })}
+              title="Tint for later frames"
+              style={colorStyle}
+            />
+          </div>
+          <NumberField label="Opacity" value={settings.opacity} step={0.05} min={0} max={1} onChange={(v) => set({ opacity: clampUnit(v) })} />
+          <NumberField label="Tint" value={settings.tintAmount} step={0.1} min={0} max={1} onChange={(v) => set({ tintAmount: clampUnit(v) })} />
+        </>
+      )}
+    </div>
+  );
+}
+
+// ── Inline styles ────────────────────────────────────────────────────────────
+
+const sectionStyle: React.CSSProperties = {
+  display: "flex", flexDirection: "column", gap: 4,
+  marginTop: 8, paddingTop: 8,
+  borderTop: "1px solid #2a2a4a",
+};
+
+const rowStyle: React.CSSProperties = {
+  display: "flex", alignItems: "center", gap: 6,
+};
+
+const colorStyle: React.CSSProperties = {
+  width: 28, height: 20, padding: 0,
+  background: "#223", border: "1px solid #334", borderRadius: 4,
+};
@@ -1,22 +1,55 @@
 import { useEffect, useRef } from "react";
 import * as THREE from "three";
-import { SPRITE_DIRS, LOOK_TARGET } from "./spriteExport";
+import { createSpriteView, type SpriteView } from "./projection";
+import type { SpriteSettings } from "./spriteSettings";
+import { renderSpriteFrame } from "./spriteExport";
+import { createLimbIdPass, type LimbIdPass } from "./limbIdPass";
+import { ghostAlpha, ghostTimes, tintFrame, type OnionSkinSettings } from "./onionSkin";
 
 interface Props {
   sceneRef: React.RefObject<THREE.Scene | null>;
+  limbs: Map<string, THREE.Mesh[]>;
+  settings: SpriteSettings;
+  bounds: THREE.Box3 | null;
   directionIndex: number;
-  frameSize?: number;
+  /** Scrubbed briefly each frame to render onion-skin ghosts; restored before returning. */
+  mixerRef: React.RefObject<THREE.AnimationMixer | null>;
+  clipRef: React.RefObject<THREE.AnimationClip | null>;
+  onionSkin: OnionSkinSettings;
 }
 
-export function PixelView({ sceneRef, directionIndex, frameSize = 64 }: Props) {
+export function PixelView({ sceneRef, limbs, settings, bounds, directionIndex, mixerRef, clipRef, onionSkin }: Props) {
+  const { frameSize } = settings;
   const canvasRef = useRef<HTMLCanvasElement>(null);
+  const viewRef = useRef<SpriteView | null>(null);
   const dirIndexRef = useRef(directionIndex);
+  const settingsRef = useRef(settings);
+  const idPassRef = useRef<LimbIdPass | null>(null);
+  const onionRef = useRef(onionSkin);
+
+  // Keep the camera, direction and pixel pipeline in sync without recreating the renderer
+  useEffect(() => {
+    viewRef.current = createSpriteView(settings, bounds);
+    settingsRef.current = settings;
+  }, [settings, bounds]);
 
-  // Keep dirIndexRef in sync without recreating the renderer
   useEffect(() => {
     dirIndexRef.current = directionIndex;
   }, [directionIndex]);
 
+  useEffect(() => {
+    onionRef.current = onionSkin;
+  }, [onionSkin]);
+
+  useEffect(() => {
+    const pass = createLimbIdPass(limbs);
+    idPassRef.current = pass;
+    return () => {
+      idPassRef.current = null;
+      pass.dispose();
+    };
+  }, [limbs]);
+
   useEffect(() => {
     const canvas = canvasRef.current;
     if (!canvas) return;
@@ -27,9 +60,19 @@ export function PixelView({ sceneRef, directionIndex, frameSize = 64 }: Props) {
     renderer.setSize(frameSize, frameSize);
     renderer.setClearColor(0x000000, 0);
 
-    const camera = new THREE.PerspectiveCamera(45, 1, 0.1, 100);
-    const gl = renderer.getContext();
-    const raw = new Uint8Array(frameSize * frameSize * 4);
+    // putImageData ignores alpha blending, so every frame goes through drawImage
+    const layer = document.createElement("canvas");
+    layer.width = layer.height = frameSize;
+    const layerCtx = layer.getContext("2d")!;
+    // Mirrored directions preview their source flipped, as the export draws them
+    let flip = false;
+    const draw = (img: ImageData, alpha: number) => {
+      layerCtx.putImageData(img, 0, 0);
+      ctx.globalAlpha = alpha;
+      ctx.setTransform(flip ? -1 : 1, 0, 0, 1, flip ? frameSize : 0, 0);
+      ctx.drawImage(layer, 0, 0);
+      ctx.setTransform(1, 0, 0, 1, 0, 0);
+    };
 
     let rafId: number;
     const loop = () => {
@@ -37,23 +80,41 @@ export function PixelView({ sceneRef, directionIndex, frameSize = 64 }: Props) {
       const scene = sceneRef.current;
       if (!scene) return;
 
-      const dir = SPRITE_DIRS[dirIndexRef.current];
-      if (!dir) return;
-      camera.position.set(dir.pos[0], dir.pos[1], dir.pos[2]);
-      camera.lookAt(LOOK_TARGET);
+      const view = viewRef.current;
+      if (!view) return;
+      const mirrorOf = view.dirs[dirIndexRef.current]?.mirrorOf;
+      flip = mirrorOf !== undefined;
+      view.aim(mirrorOf ?? dirIndexRef.current);
 
-      renderer.render(scene, camera);
+      const settings = settingsRef.current;
+      ctx.clearRect(0, 0, frameSize, frameSize);
 
-      gl.readPixels(0, 0, frameSize, frameSize, gl.RGBA, gl.UNSIGNED_BYTE, raw);
-
-      // Flip Y (WebGL = bottom-up, canvas = top-down)
-      const img = ctx.createImageData(frameSize, frameSize);
-      for (let y = 0; y < frameSize; y++) {
-        const src = (frameSize - 1 - y) * frameSize * 4;
-        const dst = y * frameSize * 4;
-        img.data.set(raw.subarray(src, src + frameSize * 4), dst);
+      // Ghosts at neighbouring export samples, scrubbed like renderSpritesheet
+      // and put back so the main view never sees the detour
+      const onion = onionRef.current;
+      const mixer = mixerRef.current;
+      const clip = clipRef.current;
+      if (onion.enabled && mixer && clip && clip.duration > 0) {
+        const action = mixer.clipAction(clip);
+        const wasPaused = action.paused;
+        const savedTime = action.time;
+        action.paused = true;
+        for (const ghost of ghostTimes(savedTime, clip.duration, settings.frameCount, onion)) {
+          action.time = ghost.time;
+          mixer.update(0);
+          scene.updateMatrixWorld(true);
+          const img = renderSpriteFrame(renderer, scene, view.camera, settings, idPassRef.current);
+          tintFrame(img, ghost.side === "before" ? onion.tintBefore : onion.tintAfter, onion.tintAmount);
+          draw(img, ghostAlpha(onion, ghost.side, ghost.distance));
+        }
+        action.time = savedTime;
+        action.paused = wasPaused;
+        mixer.update(0);
+        scene.updateMatrixWorld(true);
       }
-      ctx.putImageData(img, 0, 0);
+
+      // Same pipeline as exportSpritesheet — the preview is the exported frame
+      draw(renderSpriteFrame(renderer, scene, view.camera, settings, idPassRef.current), 1);
     };
     loop();
 
@@ -61,7 +122,7 @@ export function PixelView({ sceneRef, directionIndex, frameSize = 64 }: Props) {
       cancelAnimationFrame(rafId);
       renderer.dispose();
     };
-  }, [sceneRef, frameSize]); // renderer created once; direction handled via ref
+  }, [sceneRef, mixerRef, clipRef, frameSize]); // renderer created once; direction handled via ref
 
   const displaySize = frameSize * 3; // 192px at 64px native = crisp 3×
 
@@ -76,6 +137,7 @@ export function PixelView({ sceneRef, directionIndex, frameSize = 64 }: Props) {
         imageRendering: "pixelated",
         display: "block",
         border: "1px solid #444",
+        background: "#16161e",
       }}
     />
   );
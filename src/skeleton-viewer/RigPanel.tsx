@@ -0,0 +1,114 @@
+import { useState } from "react";
+import { CANONICAL_BONES, RIG_PROFILES, missingCanonical, type RigMapping } from "./rigProfiles";
+
+interface Props {
+  rig: RigMapping;
+  /** Bone names as loaded from the file, in hierarchy order. */
+  sourceBones: string[];
+  onChange: (rig: RigMapping) => void;
+  /** Re-runs detection with a specific profile. */
+  onProfile: (profileId: string) => void;
+}
+
+const IGNORE = "__ignore__";
+
+export function RigPanel({ rig, sourceBones, onChange, onProfile }: Props) {
+  const [showAll, setShowAll] = useState(false);
+  const missing = missingCanonical(rig);
+  const unmapped = sourceBones.filter((b) => rig.bones[b] === undefined);
+  const listed = showAll ? sourceBones : unmapped;
+
+  function setBone(source: string, value: string) {
+    const bones = { ...rig.bones };
+    if (value === "") delete bones[source];
+    else bones[source] = value === IGNORE ? null : value;
+    // A canonical name belongs to one bone — release it from any other
+    if (value !== "" && value !== IGNORE) {
+      Object.keys(bones).forEach((k) => { if (k !== source && bones[k] === value) delete bones[k]; });
+    }
+    onChange({ ...rig, bones });
+  }
+
+  return (
+    <div style={panelStyle}>
+      <div style={titleStyle}>Rig Mapping</div>
+      <div style={rowStyle}>
+        <span style={labelStyle}>Profile</span>
+        <select value={rig.profile} onChange={(e) => onProfile(e.target.value)} style={inputStyle}>
+          {RIG_PROFILES.map((p) => (
+            <option key={p.id} value={p.id}>{p.label}</option>
+          ))}
+        </select>
+      </div>
+      <div style={{ fontSize: 11, color: missing.length ? "#ffaa66" : "#88ffbb" }}>
+        {missing.length ? `Missing: ${missing.join(", ")}` : "All core bones mapped"}
+      </div>
+      <div style={{ fontSize: 11, color: "#889" }}>
+        {unmapped.length} unmapped of {sourceBones.length} bones
+      </div>
+      <label style={rowStyle}>
+        <input type="checkbox" checked={showAll} onChange={(e) => setShowAll(e.target.checked)} />
+        <span style={{ fontSize: 11, color: "#889" }}>Show mapped bones</span>
+      </label>
+
+      <div style={boneListStyle}>
+        {listed.map((source) => {
+          const value = rig.bones[source];
+          return (
+            <div key={source} style={rowStyle}>
+              <span style={labelStyle} title={source}>{source}</span>
+              <select
+                value={value === null ? IGNORE : (value ?? "")}
+                onChange={(e) => setBone(source, e.target.value)}
+                style={inputStyle}
+              >
+                <option value="">(unmapped)</option>
+                <option value={IGNORE}>(ignore)</option>
+                {CANONICAL_BONES.map((name) => (
+                  <option key={name} value={name}>{name}</option>
+                ))}
+              </select>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
+
+// ── Inline styles ────────────────────────────────────────────────────────────
+
+const panelStyle: React.CSSProperties = {
+  position: "absolute", top: 16, left: 270,
+  width: 250, maxHeight: "calc(100vh - 32px)", overflowY: "auto",
+  display: "flex", flexDirection: "column", gap: 4,
+  background: "rgba(10,10,20,0.85)",
+  padding: 12, borderRadius: 8,
+  border: "1px solid #2a2a4a",
+  backdropFilter: "blur(4px)",
+};
+
+const titleStyle: React.CSSProperties = {
+  color: "#7788aa", fontSize: 11, marginBottom: 4, textAlign: "center",
+};
+
+const boneListStyle: React.CSSProperties = {
+  display: "flex", flexDirection: "column", gap: 4,
+  marginTop: 4, paddingTop: 8,
+  borderTop: "1px solid #2a2a4a",
+};
+
+const rowStyle: React.CSSProperties = {
+  display: "flex", alignItems: "center", gap: 6,
+};
+
+const labelStyle: React.CSSProperties = {
+  width: 100, fontSize: 11, color: "#7788aa",
+  overflow: "hidden", textOverflow: "ellipsis", whiteSpace: "nowrap",
+};
+
+const inputStyle: React.CSSProperties = {
+  flex: 1, minWidth: 0, fontSize: 11, padding: "2px 4px",
+  background: "#223", color: "#ccd",
+  border: "1px solid #334", borderRadius: 4,
+};
@@ -1,12 +1,63 @@
-import { useEffect, useRef, useState } from "react";
+import { useEffect, useMemo, useRef, useState } from "react";
 import * as THREE from "three";
-import { FBXLoader } from "three/examples/jsm/loaders/FBXLoader.js";
-import { isBone, addVisuals, strip } from "./boneVisuals";
 import { PixelView } from "./PixelView";
-import { exportSpritesheet, SPRITE_DIRS } from "./spriteExport";
-import { generatePositionMaps, downloadPositionMapsAsPNG } from "./limbPositionMap";
-
-type Status = "loading" | "ready" | "error";
+import { OnionSkinPanel } from "./OnionSkinPanel";
+import { AnimatedExportPanel } from "./AnimatedExportPanel";
+import { DEFAULT_ANIMATED_EXPORT, exportAnimatedPreviews, type AnimatedExportSettings } from "./animatedExport";
+import { DEFAULT_ONION_SKIN, type OnionSkinSettings } from "./onionSkin";
+import { exportSpritesheet, renderSpritesheet, type SpriteTarget } from "./spriteExport";
+import { extractPalette } from "./palette";
+import { buildViewDirs, computeClipBounds } from "./projection";
+import { DEFAULT_SPRITE_SETTINGS, type SpriteSettings } from "./spriteSettings";
+import { SpriteSettingsPanel } from "./SpriteSettingsPanel";
+import { DEFAULT_SPRITE_PASSES } from "./spritePasses";
+import { BoneStylePanel } from "./BoneStylePanel";
+import { DEFAULT_BONE_STYLE, type BoneStyle } from "./boneConfig";
+import { AccessoryPanel } from "./AccessoryPanel";
+import {
+  ACCESSORIES,
+  attachAccessories,
+  buildAccessories,
+  defaultAccessoryIds,
+  modelAccessory,
+  type AccessoryDef,
+} from "./accessories";
+import { strip } from "./boneVisuals";
+import { exportCharacterGLB } from "./glbExport";
+import { describeExport, type ExportResult } from "./exportSink";
+import { BatchPanel } from "./BatchPanel";
+import { runBatch, type BatchItem, type BatchProgress } from "./batchExport";
+import { Timeline } from "./Timeline";
+import { RigPanel } from "./RigPanel";
+import { detectRig, sourceBoneName, type RigMapping } from "./rigProfiles";
+import { createRootMotionPreview, createRootMotionSampler } from "./rootMotion";
+import {
+  generatePositionMaps,
+  generatePositionMapSequence,
+  exportPositionMaps,
+  exportPositionMapSequence,
+  POSITION_MAP_FORMATS,
+  DEFAULT_POSITION_MAP_VIEWS,
+  type PositionMapFormat,
+  type PositionMapViewConfig,
+} from "./limbPositionMap";
+import {
+  buildCharacter,
+  characterExportName,
+  exportName,
+  inPlaceClip,
+  listAssets,
+  loadSource,
+  remapCharacter,
+  restyleCharacter,
+  sourceName,
+  sourceStem,
+  type Character,
+  type CharacterSource,
+  SOURCE_PATTERN,
+} from "./character";
+
+type Status = "loading" | "ready" | "error" | "empty";
 
 export function SkeletonViewer() {
   const mountRef = useRef<HTMLDivElement>(null);
@@ -15,10 +66,50 @@ export function SkeletonViewer() {
   const mixerRef = useRef<THREE.AnimationMixer | null>(null);
   const clipRef = useRef<THREE.AnimationClip | null>(null);
   const limbMeshesRef = useRef<Map<string, THREE.Mesh[]>>(new Map());
+  // Set while "play with root motion" is on: offsets the character for the main view only
+  const travelRef = useRef<TravelPreview | null>(null);
+  const boneStyleRef = useRef<BoneStyle>(DEFAULT_BONE_STYLE);
+  // Read by the render loop: paused playback advances the mixer by 0
+  const playbackRef = useRef({ playing: true, speed: 1 });
 
   const [status, setStatus] = useState<Status>("loading");
   const [showPixel, setShowPixel] = useState(false);
   const [pixelDir, setPixelDir] = useState(0);
+  const [assets, setAssets] = useState<string[]>([]);
+  const [source, setSource] = useState<CharacterSource | null>(null);
+  const [character, setCharacter] = useState<Character | null>(null);
+  const [clipIndex, setClipIndex] = useState(0);
+  const [dragging, setDragging] = useState(false);
+  const [spriteSettings, setSpriteSettings] = useState<SpriteSettings>(DEFAULT_SPRITE_SETTINGS);
+  const [clipBounds, setClipBounds] = useState<THREE.Box3 | null>(null);
+  const [playRootMotion, setPlayRootMotion] = useState(false);
+  const [posMapSequence, setPosMapSequence] = useState(false);
+  const [posMapFormat, setPosMapFormat] = useState<PositionMapFormat>("png8");
+  const [posMapViews, setPosMapViews] = useState<PositionMapViewConfig>(DEFAULT_POSITION_MAP_VIEWS);
+  const [showBoneStyle, setShowBoneStyle] = useState(false);
+  const [showRig, setShowRig] = useState(false);
+  const [glbRootMotion, setGlbRootMotion] = useState(false);
+  const [playing, setPlaying] = useState(true);
+  const [speed, setSpeed] = useState(1);
+  const [onionSkin, setOnionSkin] = useState<OnionSkinSettings>(DEFAULT_ONION_SKIN);
+  const [animatedExport, setAnimatedExport] = useState<AnimatedExportSettings>(DEFAULT_ANIMATED_EXPORT);
+  const [encodingAnimated, setEncodingAnimated] = useState(false);
+  // Where the last export went (server folder or browser downloads)
+  const [exportStatus, setExportStatus] = useState<string | null>(null);
+  const [showBatch, setShowBatch] = useState(false);
+  const [batchProgress, setBatchProgress] = useState<BatchProgress[]>([]);
+  const [batchRunning, setBatchRunning] = useState(false);
+  const [batchPositionMaps, setBatchPositionMaps] = useState(true);
+  const batchAbortRef = useRef<AbortController | null>(null);
+  const [boneStyle, setBoneStyle] = useState<BoneStyle>(DEFAULT_BONE_STYLE);
+  const [accessoryRegistry, setAccessoryRegistry] = useState<AccessoryDef[]>(ACCESSORIES);
+  // Enabled accessory ids per character (keyed by source file name)
+  const [accessoryToggles, setAccessoryToggles] = useState<Record<string, string[]>>({});
+
+  const spriteDirs = useMemo(() => buildViewDirs(spriteSettings), [spriteSettings]);
+  const activeDir = Math.min(pixelDir, spriteDirs.length - 1);
+  const characterKey = source ? sourceName(source) : "";
+  const enabledAccessories = accessoryToggles[characterKey] ?? defaultAccessoryIds(accessoryRegistry);
 
   useEffect(() => {
     const mount = mountRef.current;
@@ -55,62 +146,14 @@ export function SkeletonViewer() {
 
     scene.add(new THREE.GridHelper(6, 12, 0x2a2a3a, 0x1e1e2a));
 
-    // ── Load FBX ──────────────────────────────────────────────────────────
-    new FBXLoader().load(
-      "/walking.fbx",
-      (fbx) => {
-        fbx.scale.setScalar(0.01); // Mixamo uses centimetres
-        scene.add(fbx);
-        fbx.updateMatrixWorld(true);
-
-        // Collect bones before adding visuals so newly added meshes
-        // are never mistaken for bone children during addVisuals()
-        const bones: THREE.Object3D[] = [];
-        fbx.traverse((obj) => { if (isBone(obj)) bones.push(obj); });
-
-        // Use LeftArm/RightArm (actual shoulder joints, not clavicle bases)
-        // so torso capsule diameter equals the real shoulder span.
-        let torsoRadius: number | undefined;
-        const lArm = bones.find(b => strip(b.name) === "LeftArm");
-        const rArm = bones.find(b => strip(b.name) === "RightArm");
-        if (lArm && rArm) {
-          const lPos = new THREE.Vector3();
-          const rPos = new THREE.Vector3();
-          lArm.getWorldPosition(lPos);
-          rArm.getWorldPosition(rPos);
-          torsoRadius = lPos.distanceTo(rPos) / 2; // half shoulder span = capsule radius
-        }
-
-        bones.forEach(b => addVisuals(b, torsoRadius));
-
-        // Collect limb meshes by bone name (after addVisuals so children are populated).
-        // Exclude joint-dot spheres (isJoint) — they overlap adjacent limbs.
-        const limbs = new Map<string, THREE.Mesh[]>();
-        bones.forEach(bone => {
-          const meshes = bone.children.filter(
-            c => c instanceof THREE.Mesh && !c.userData.isJoint,
-          ) as THREE.Mesh[];
-          if (meshes.length > 0) limbs.set(strip(bone.name), meshes);
-        });
-        limbMeshesRef.current = limbs;
-
-        if (fbx.animations.length > 0) {
-          const clip = fbx.animations[0]!;
-          // Remove Hips translation track — keeps the walk in-place
-          clip.tracks = clip.tracks.filter(
-            (t) => !(t.name.toLowerCase().includes("hips") && t.name.endsWith(".position")),
-          );
-          clipRef.current = clip;
-          const mixer = new THREE.AnimationMixer(fbx);
-          mixer.clipAction(clip).play();
-          mixerRef.current = mixer;
-        }
-
-        setStatus("ready");
-      },
-      undefined,
-      () => setStatus("error"),
-    );
+    // ── Asset list — start with the first file the server offers ──────────
+    listAssets()
+      .then((files) => {
+        setAssets(files);
+        if (files[0]) setSource({ kind: "asset", name: files[0] });
+        else setStatus("empty");
+      })
+      .catch(() => setStatus("empty"));
 
     // ── Render loop ────────────────────────────────────────────────────────
     const timer = new THREE.Timer();
@@ -118,8 +161,21 @@ export function SkeletonViewer() {
     const loop = () => {
       rafId = requestAnimationFrame(loop);
       timer.update();
-      mixerRef.current?.update(timer.getDelta());
+      const { playing, speed } = playbackRef.current;
+      mixerRef.current?.update(playing ? timer.getDelta() * speed : 0);
+
+      // Root-motion travel is applied around this render only, so PixelView
+      // and exports (which render the same scene) always see the in-place pose.
+      const travel = travelRef.current;
+      if (travel) {
+        const offset = travel.preview.offset(travel.action.time);
+        travel.root.position.set(offset.x, 0, offset.y);
+      }
       renderer.render(scene, camera);
+      if (travel) {
+        travel.root.position.set(0, 0, 0);
+        travel.root.updateMatrixWorld(true);
+      }
     };
     loop();
 
@@ -141,73 +197,580 @@ export function SkeletonViewer() {
     };
   }, []);
 
-  function handleExport() {
+  useEffect(() => {
+    playbackRef.current = { playing, speed };
+  }, [playing, speed]);
+
+  // ── Load the animation file whenever the source changes ───────────────────
+  useEffect(() => {
+    if (!source) return;
+    let cancelled = false;
+    setStatus("loading");
+
+    loadSource(source).then(
+      (loaded) => {
+        const scene = sceneRef.current;
+        if (cancelled || !scene) return;
+        const next = buildCharacter(loaded, boneStyleRef.current);
+        scene.add(next.root);
+        limbMeshesRef.current = next.limbs;
+        setClipIndex(0);
+        setCharacter(next);
+        setStatus("ready");
+      },
+      () => { if (!cancelled) setStatus("error"); },
+    );
+
+    return () => { cancelled = true; };
+  }, [source]);
+
+  // Restyling swaps the Character object but keeps its root, so the effects
+  // below key on the root and survive style edits. Rig remapping also renames
+  // the clip tracks, so the mixer follows `characterClips` too.
+  const characterRoot = character?.root ?? null;
+  const characterClips = character?.clips;
+  const characterRig = character?.rig;
+
+  // Remove the previous character once it has been replaced (or on unmount)
+  useEffect(() => {
+    if (!characterRoot) return;
+    return () => {
+      characterRoot.removeFromParent();
+      characterRoot.traverse((obj) => {
+        if (obj instanceof THREE.Mesh) obj.geometry.dispose();
+      });
+    };
+  }, [characterRoot]);
+
+  // ── Rebuild bone visuals live when the style changes ─────────────────────
+  useEffect(() => {
+    if (boneStyleRef.current === boneStyle) return;
+    boneStyleRef.current = boneStyle;
+    if (!character) return;
+    const next = restyleCharacter(character, boneStyle);
+    limbMeshesRef.current = next.limbs;
+    setCharacter(next);
+    // Capsule radii change the silhouette, so re-frame the orthographic views
+    const mixer = mixerRef.current;
+    const clip = clipRef.current;
+    if (mixer && clip) setClipBounds(computeClipBounds(next.root, mixer, clip));
+  }, [boneStyle]);
+
+  // ── Attach the enabled accessories (restyling leaves them in place) ──────
+  useEffect(() => {
+    if (!character) return;
+    let cancelled = false;
+    buildAccessories(accessoryRegistry, enabledAccessories).then((built) => {
+      if (cancelled) return;
+      attachAccessories(character.bones, character.root, built);
+      // Props like swords extend the silhouette, so re-frame the orthographic views
+      const mixer = mixerRef.current;
+      const clip = clipRef.current;
+      if (mixer && clip) setClipBounds(computeClipBounds(character.root, mixer, clip));
+    });
+    return () => { cancelled = true; };
+  }, [characterRoot, characterRig, accessoryRegistry, enabledAccessories.join()]);
+
+  // ── Rebuild the mixer for the selected clip ───────────────────────────────
+  useEffect(() => {
+    const source = character?.clips[clipIndex];
+    if (!character || !source) {
+      mixerRef.current = null;
+      clipRef.current = null;
+      setClipBounds(null);
+      return;
+    }
+
+    // Strip the Hips translation track from a copy — keeps the motion in-place
+    const clip = inPlaceClip(source);
+    const mixer = new THREE.AnimationMixer(character.root);
+    mixer.clipAction(clip).play();
+    clipRef.current = clip;
+    mixerRef.current = mixer;
+    setClipBounds(computeClipBounds(character.root, mixer, clip));
+
+    return () => {
+      mixer.stopAllAction();
+      mixer.uncacheRoot(character.root);
+      if (mixerRef.current === mixer) mixerRef.current = null;
+    };
+  }, [characterRoot, characterClips, clipIndex]);
+
+  // ── Root-motion preview ───────────────────────────────────────────────────
+  useEffect(() => {
+    const source = character?.clips[clipIndex];
+    const mixer = mixerRef.current;
+    const clip = clipRef.current;
+    if (!playRootMotion || !character || !source || !mixer || !clip) return;
+
+    const sampler = createRootMotionSampler(source, character.root);
+    if (!sampler) return;
+    const action = mixer.clipAction(clip);
+    const preview = createRootMotionPreview(sampler);
+    const onLoop = (e: { action: THREE.AnimationAction }) => { if (e.action === action) preview.looped(); };
+    mixer.addEventListener("loop", onLoop);
+    travelRef.current = { root: character.root, action, preview };
+    return () => {
+      mixer.removeEventListener("loop", onLoop);
+      travelRef.current = null;
+    };
+  }, [characterRoot, characterClips, clipIndex, playRootMotion]);
+
+  function handleFile(file: File | undefined) {
+    if (file && SOURCE_PATTERN.test(file.name)) setSource({ kind: "file", file });
+  }
+
+  function applyRigMapping(rig: RigMapping) {
+    if (!character) return;
+    const next = remapCharacter(character, rig, boneStyle);
+    limbMeshesRef.current = next.limbs;
+    setCharacter(next);
+  }
+
+  function toggleAccessory(id: string, on: boolean) {
+    const next = on ? [...enabledAccessories, id] : enabledAccessories.filter((a) => a !== id);
+    setAccessoryToggles((t) => ({ ...t, [characterKey]: next }));
+  }
+
+  function addModelAccessory(file: File, bone: string) {
+    const def = modelAccessory(file, bone);
+    setAccessoryRegistry((r) => [...r, def]);
+    setAccessoryToggles((t) => ({ ...t, [characterKey]: [...enabledAccessories, def.id] }));
+  }
+
+  function handleDrop(e: React.DragEvent) {
+    e.preventDefault();
+    setDragging(false);
+    handleFile(e.dataTransfer.files[0]);
+  }
+
+  function spriteTarget(): SpriteTarget | null {
     const scene = sceneRef.current;
     const mixer = mixerRef.current;
     const clip = clipRef.current;
-    if (scene && mixer && clip) exportSpritesheet(scene, mixer, clip);
+    const sourceClip = character?.clips[clipIndex];
+    if (!scene || !mixer || !clip || !sourceClip || !source || !character) return null;
+    return {
+      scene,
+      root: character.root,
+      mixer,
+      clip,
+      sourceClip,
+      limbs: character.limbs,
+      bounds: clipBounds,
+      name: exportName(source, character, clip),
+      character: sourceStem(source),
+    };
+  }
+
+  async function reportExport(pending: Promise<ExportResult | null>) {
+    setExportStatus("Exporting…");
+    try {
+      const result = await pending;
+      setExportStatus(result ? describeExport(result) : null);
+    } catch (err) {
+      setExportStatus(`Export failed: ${err instanceof Error ? err.message : String(err)}`);
+    }
+  }
+
+  async function handleExport() {
+    const target = spriteTarget();
+    if (!target || !character || !source) return;
+    const { packing } = spriteSettings;
+    if (!packing.enabled || !packing.allClips) {
+      void reportExport(exportSpritesheet(target, spriteSettings));
+      return;
+    }
+
+    // The other clips get temporary mixers on the same root for the combined atlas
+    const others: SpriteTarget[] = character.clips.filter((_, i) => i !== clipIndex).map((sourceClip) => {
+      const clip = inPlaceClip(sourceClip);
+      const mixer = new THREE.AnimationMixer(character.root);
+      mixer.clipAction(clip).play();
+      const bounds = computeClipBounds(character.root, mixer, clip);
+      return { ...target, mixer, clip, sourceClip, bounds, name: exportName(source, character, clip) };
+    });
+    target.mixer.update(0);
+    const packed = { name: `${characterExportName(source)}-clips`, others };
+    try {
+      await reportExport(exportSpritesheet(target, spriteSettings, packed));
+    } finally {
+      others.forEach((t) => {
+        t.mixer.stopAllAction();
+        t.mixer.uncacheRoot(character.root);
+      });
+    }
+  }
+
+  async function handleExportAnimated() {
+    const target = spriteTarget();
+    if (!target) return;
+    setEncodingAnimated(true);
+    try {
+      await reportExport(exportAnimatedPreviews(target, spriteSettings, animatedExport));
+    } finally {
+      setEncodingAnimated(false);
+    }
+  }
+
+  function handleExtractPalette(size: number) {
+    const target = spriteTarget();
+    if (!target) return;
+    // Extract from the raw render (no quantization or outline) so re-extracting is stable
+    const raw: SpriteSettings = {
+      ...spriteSettings,
+      post: { ...spriteSettings.post, palette: [] },
+      outline: { ...spriteSettings.outline, mode: "none" },
+      passes: DEFAULT_SPRITE_PASSES,
+      layers: false,
+    };
+    const { canvas } = renderSpritesheet(target, raw);
+    const img = canvas.getContext("2d")!.getImageData(0, 0, canvas.width, canvas.height);
+    const palette = extractPalette(img, size);
+    setSpriteSettings((s) => ({ ...s, post: { ...s.post, palette } }));
+  }
+
+  function handleExportGLB() {
+    const target = spriteTarget();
+    if (!target || !character) return;
+    // The original clip keeps the Hips travel; the mixer's copy is in-place
+    const clip = glbRootMotion ? target.sourceClip : target.clip;
+    const info = { character: target.character, clip: target.clip.name, kind: "glb" };
+    void reportExport(exportCharacterGLB(character, clip, target.name, info));
   }
 
   function handleExportPositionMap() {
     const renderer = rendererRef.current;
     const limbs = limbMeshesRef.current;
-    if (!renderer || limbs.size === 0) return;
-    downloadPositionMapsAsPNG(generatePositionMaps(renderer, limbs, 64));
+    const target = spriteTarget();
+    if (!renderer || limbs.size === 0 || !target) return;
+    const { mixer, clip } = target;
+    const info = { character: target.character, clip: clip.name, kind: "position-maps" };
+    if (posMapSequence) {
+      // Same frame count and sample times as the spritesheet
+      const seq = generatePositionMapSequence(renderer, limbs, mixer, clip, spriteSettings.frameCount, 64, posMapViews);
+      void reportExport(exportPositionMapSequence(seq, posMapFormat, target.name, info));
+      return;
+    }
+    void reportExport(exportPositionMaps(generatePositionMaps(renderer, limbs, 64, posMapViews), posMapFormat, target.name, info));
   }
 
+  async function handleRunBatch(items: BatchItem[]) {
+    const scene = sceneRef.current;
+    const renderer = rendererRef.current;
+    if (!scene || !renderer || batchRunning) return;
+    const abort = new AbortController();
+    batchAbortRef.current = abort;
+    setBatchRunning(true);
+    try {
+      await reportExport(runBatch(items, {
+        sprite: spriteSettings,
+        boneStyle,
+        accessories: accessoryRegistry,
+        accessoriesFor: (name) => accessoryToggles[name] ?? defaultAccessoryIds(accessoryRegistry),
+        positionMaps: batchPositionMaps
+          ? { format: posMapFormat, sequence: posMapSequence, views: posMapViews }
+          : null,
+      }, {
+        scene,
+        renderer,
+        liveRoot: character?.root ?? null,
+        onProgress: setBatchProgress,
+        signal: abort.signal,
+      }));
+    } finally {
+      batchAbortRef.current = null;
+      setBatchRunning(false);
+    }
+  }
+
+  const label = source ? sourceName(source) : "";
+
   return (
-    <div style={{ width: "100vw", height: "100vh", position: "relative", background: "#16161e" }}>
+    <div
+      style={{ width: "100vw", height: "100vh", position: "relative", background: "#16161e" }}
+      onDragOver={(e) => { e.preventDefault(); setDragging(true); }}
+      onDragLeave={() => setDragging(false)}
+      onDrop={handleDrop}
+    >
       <div ref={mountRef} style={{ width: "100%", height: "100%" }} />
 
       {status === "loading" && (
-        <div style={overlayStyle}>Loading skeleton…</div>
+        <div style={overlayStyle}>Loading {label || "skeleton"}…</div>
       )}
       {status === "error" && (
-        <div style={{ ...overlayStyle, color: "#ff6666" }}>Failed to load Walking.fbx</div>
+        <div style={{ ...overlayStyle, color: "#ff6666" }}>Failed to load {label}</div>
+      )}
+      {status === "empty" && !dragging && (
+        <div style={overlayStyle}>No FBX, BVH or GLB files in the assets directory — drop one here</div>
+      )}
+      {dragging && (
+        <div style={{ ...overlayStyle, border: "2px dashed #0077cc", pointerEvents: "none" }}>Drop FBX, BVH or GLB to load</div>
       )}
 
       {/* ── Pixel preview panel (top-right) ─────────────────────────────── */}
       {showPixel && status === "ready" && (
         <div style={panelStyle}>
-          <div style={panelLabelStyle}>Pixel Preview · 64×64</div>
-          <PixelView sceneRef={sceneRef} directionIndex={pixelDir} />
-          <div style={{ display: "flex", gap: 4, marginTop: 8 }}>
-            {SPRITE_DIRS.map((d, i) => (
+          <div style={panelLabelStyle}>
+            Pixel Preview · {spriteSettings.frameSize}×{spriteSettings.frameSize}
+          </div>
+          <PixelView
+            sceneRef={sceneRef}
+            limbs={character?.limbs ?? EMPTY_LIMBS}
+            settings={spriteSettings}
+            bounds={clipBounds}
+            directionIndex={activeDir}
+            mixerRef={mixerRef}
+            clipRef={clipRef}
+            onionSkin={onionSkin}
+          />
+          <div style={dirGridStyle(spriteDirs.length)}>
+            {spriteDirs.map((d, i) => (
               <button
-                key={d.label}
+                key={i}
+                title={d.label}
                 onClick={() => setPixelDir(i)}
-                style={dirBtnStyle(i === pixelDir)}
+                style={dirBtnStyle(i === activeDir)}
               >
                 {d.label}
               </button>
             ))}
           </div>
+          <OnionSkinPanel settings={onionSkin} onChange={setOnionSkin} />
+          <SpriteSettingsPanel
+            settings={spriteSettings}
+            onChange={setSpriteSettings}
+            onExtractPalette={handleExtractPalette}
+          />
           <button onClick={handleExport} style={exportBtnStyle}>
             Export Spritesheet
           </button>
-          <button onClick={handleExportPositionMap} style={exportBtnStyle}>
-            Export Position Maps
-          </button>
-        </div>
-      )}
-
-      {/* ── Controls (bottom-left) ──────────────────────────────────────── */}
-      {status === "ready" && (
-        <div style={controlsStyle}>
-          <label style={checkboxLabelStyle}>
+          <AnimatedExportPanel
+            settings={animatedExport}
+            onChange={setAnimatedExport}
+            onExport={handleExportAnimated}
+            busy={encodingAnimated}
+          />
+          <div style={{ display: "flex", gap: 4 }}>
+            <button onClick={handleExportPositionMap} style={{ ...exportBtnStyle, flex: 1 }}>
+              Export Position Maps
+            </button>
+            <select
+              value={posMapFormat}
+              onChange={(e) => setPosMapFormat(e.target.value as PositionMapFormat)}
+              style={{ ...selectStyle, flex: "none", marginTop: 8, width: 72 }}
+            >
+              {POSITION_MAP_FORMATS.map((f) => (
+                <option key={f.value} value={f.value}>{f.label}</option>
+              ))}
+            </select>
+          </div>
+          <label style={{ ...checkboxLabelStyle, fontSize: 11, marginTop: 4 }}>
             <input
               type="checkbox"
-              checked={showPixel}
-              onChange={(e) => setShowPixel(e.target.checked)}
+              checked={posMapSequence}
+              onChange={(e) => setPosMapSequence(e.target.checked)}
+            />
+            All {spriteSettings.frameCount} frames (atlas)
+          </label>
+          <div style={{ display: "flex", gap: 8, marginTop: 4 }}>
+            <label style={{ ...checkboxLabelStyle, fontSize: 11, gap: 4 }}>
+              <input
+                type="checkbox"
+                checked={posMapViews.sides}
+                onChange={(e) => setPosMapViews({ ...posMapViews, sides: e.target.checked })}
+              />
+              Sides
+            </label>
+            <label style={{ ...checkboxLabelStyle, fontSize: 11, gap: 4 }} title="Left view = right view mirrored">
+              <input
+                type="checkbox"
+                checked={posMapViews.mirrorSides}
+                disabled={!posMapViews.sides}
+                onChange={(e) => setPosMapViews({ ...posMapViews, mirrorSides: e.target.checked })}
+              />
+              Mirror
+            </label>
+            <label style={{ ...checkboxLabelStyle, fontSize: 11, gap: 4 }}>
+              <input
+                type="checkbox"
+                checked={posMapViews.topBottom}
+                onChange={(e) => setPosMapViews({ ...posMapViews, topBottom: e.target.checked })}
+              />
+              Top/Bottom
+            </label>
+          </div>
+          <label style={{ ...fieldLabelStyle, fontSize: 11, marginTop: 4 }}>
+            Octahedral N×N
+            <input
+              type="number"
+              min={0}
+              max={16}
+              value={posMapViews.octahedral}
+              onChange={(e) => setPosMapViews({ ...posMapViews, octahedral: Math.max(0, Math.min(16, e.target.valueAsNumber || 0)) })}
+              style={{ ...selectStyle, width: 40 }}
             />
-            Pixel View
           </label>
         </div>
       )}
+
+      {/* ── Bone style editor (top-left) ─────────────────────────────────── */}
+      {showBoneStyle && status === "ready" && (
+        <BoneStylePanel style={boneStyle} onChange={setBoneStyle} />
+      )}
+
+      {/* ── Rig mapping editor (top-left, beside the bone style) ─────────── */}
+      {showRig && status === "ready" && character && (
+        <RigPanel
+          rig={character.rig}
+          sourceBones={character.bones.map(sourceBoneName)}
+          onChange={applyRigMapping}
+          onProfile={(id) => applyRigMapping(detectRig(character.bones, id))}
+        />
+      )}
+
+      {/* ── Batch export (top-right, beside the pixel preview) ──────────── */}
+      {showBatch && status === "ready" && (
+        <BatchPanel
+          assets={assets}
+          running={batchRunning}
+          progress={batchProgress}
+          includePositionMaps={batchPositionMaps}
+          onIncludePositionMapsChange={setBatchPositionMaps}
+          onRun={(items) => void handleRunBatch(items)}
+          onCancel={() => batchAbortRef.current?.abort()}
+        />
+      )}
+
+      {/* ── Timeline (bottom-centre) ────────────────────────────────────── */}
+      {status === "ready" && character && character.clips.length > 0 && (
+        <Timeline
+          mixerRef={mixerRef}
+          clipRef={clipRef}
+          frameCount={spriteSettings.frameCount}
+          playing={playing}
+          onPlayingChange={setPlaying}
+          speed={speed}
+          onSpeedChange={setSpeed}
+        />
+      )}
+
+      {/* ── Controls (bottom-left) ──────────────────────────────────────── */}
+      <div style={controlsStyle}>
+        <label style={fieldLabelStyle}>
+          File
+          <select
+            value={source?.kind === "asset" ? source.name : ""}
+            onChange={(e) => setSource({ kind: "asset", name: e.target.value })}
+            style={selectStyle}
+          >
+            {source?.kind === "file" && <option value="">{source.file.name}</option>}
+            {assets.map((name) => (
+              <option key={name} value={name}>{name}</option>
+            ))}
+          </select>
+        </label>
+        <label style={fieldLabelStyle}>
+          Upload
+          <input
+            type="file"
+            accept=".fbx,.bvh,.glb"
+            onChange={(e) => handleFile(e.target.files?.[0])}
+            style={{ fontSize: 11, color: "#889" }}
+          />
+        </label>
+        {status === "ready" && character && (
+          <>
+            <label style={fieldLabelStyle}>
+              Clip
+              <select
+                value={clipIndex}
+                onChange={(e) => setClipIndex(Number(e.target.value))}
+                disabled={character.clips.length === 0}
+                style={selectStyle}
+              >
+                {character.clips.length === 0 && <option>No animation clips</option>}
+                {character.clips.map((c, i) => (
+                  <option key={i} value={i}>{c.name || `Clip ${i + 1}`}</option>
+                ))}
+              </select>
+            </label>
+            <label style={checkboxLabelStyle}>
+              <input
+                type="checkbox"
+                checked={showPixel}
+                onChange={(e) => setShowPixel(e.target.checked)}
+              />
+              Pixel View
+            </label>
+            <label style={checkboxLabelStyle}>
+              <input
+                type="checkbox"
+                checked={playRootMotion}
+                onChange={(e) => setPlayRootMotion(e.target.checked)}
+              />
+              Play with root motion
+            </label>
+            <label style={checkboxLabelStyle}>
+              <input
+                type="checkbox"
+                checked={showBoneStyle}
+                onChange={(e) => setShowBoneStyle(e.target.checked)}
+              />
+              Bone Style
+            </label>
+            <label style={checkboxLabelStyle}>
+              <input
+                type="checkbox"
+                checked={showRig}
+                onChange={(e) => setShowRig(e.target.checked)}
+              />
+              Rig Mapping
+            </label>
+            <label style={checkboxLabelStyle}>
+              <input
+                type="checkbox"
+                checked={showBatch}
+                onChange={(e) => setShowBatch(e.target.checked)}
+              />
+              Batch Export
+            </label>
+            <div style={{ display: "flex", alignItems: "center", gap: 8 }}>
+              <button onClick={handleExportGLB} style={{ ...exportBtnStyle, marginTop: 0, width: "auto", padding: "4px 10px" }}>
+                Export GLB
+              </button>
+              <label style={{ ...checkboxLabelStyle, fontSize: 11, gap: 4 }}>
+                <input
+                  type="checkbox"
+                  checked={glbRootMotion}
+                  onChange={(e) => setGlbRootMotion(e.target.checked)}
+                />
+                With hips travel
+              </label>
+            </div>
+            {exportStatus && <div style={exportStatusStyle} title={exportStatus}>{exportStatus}</div>}
+            <AccessoryPanel
+              registry={accessoryRegistry}
+              enabled={enabledAccessories}
+              boneNames={character.bones.map((b) => strip(b.name))}
+              onToggle={toggleAccessory}
+              onAddModel={addModelAccessory}
+            />
+          </>
+        )}
+      </div>
     </div>
   );
 }
 
+const EMPTY_LIMBS = new Map<string, THREE.Mesh[]>();
+
+interface TravelPreview {
+  root: THREE.Object3D;
+  action: THREE.AnimationAction;
+  preview: ReturnType<typeof createRootMotionPreview>;
+}
+
 // ── Inline styles ────────────────────────────────────────────────────────────
 
 const overlayStyle: React.CSSProperties = {
@@ -218,6 +781,7 @@ const overlayStyle: React.CSSProperties = {
 
 const panelStyle: React.CSSProperties = {
   position: "absolute", top: 16, right: 16,
+  width: 194, maxHeight: "calc(100vh - 32px)", overflowY: "auto",
   background: "rgba(10,10,20,0.85)",
   padding: 12, borderRadius: 8,
   border: "1px solid #2a2a4a",
@@ -228,8 +792,14 @@ const panelLabelStyle: React.CSSProperties = {
   color: "#7788aa", fontSize: 11, marginBottom: 8, textAlign: "center",
 };
 
+const dirGridStyle = (count: number): React.CSSProperties => ({
+  display: "grid", gap: 4, marginTop: 8,
+  gridTemplateColumns: `repeat(${Math.min(count, 4)}, 1fr)`,
+});
+
 const dirBtnStyle = (active: boolean): React.CSSProperties => ({
-  flex: 1, fontSize: 10, padding: "3px 0",
+  minWidth: 0, fontSize: 10, padding: "3px 0",
+  overflow: "hidden", textOverflow: "ellipsis", whiteSpace: "nowrap",
   background: active ? "#0077cc" : "#223",
   color: active ? "white" : "#889",
   border: `1px solid ${active ? "#0077cc" : "#334"}`,
@@ -244,6 +814,7 @@ const exportBtnStyle: React.CSSProperties = {
 
 const controlsStyle: React.CSSProperties = {
   position: "absolute", bottom: 16, left: 16,
+  display: "flex", flexDirection: "column", gap: 6,
   background: "rgba(10,10,20,0.85)",
   padding: "8px 14px", borderRadius: 8,
   border: "1px solid #2a2a4a",
@@ -254,3 +825,19 @@ const checkboxLabelStyle: React.CSSProperties = {
   display: "flex", alignItems: "center", gap: 8,
   fontSize: 13, color: "#ccd", cursor: "pointer",
 };
+
+const exportStatusStyle: React.CSSProperties = {
+  maxWidth: 260, fontSize: 11, color: "#889",
+  overflow: "hidden", textOverflow: "ellipsis", whiteSpace: "nowrap",
+};
+
+const fieldLabelStyle: React.CSSProperties = {
+  display: "flex", alignItems: "center", gap: 8,
+  fontSize: 12, color: "#889",
+};
+
+const selectStyle: React.CSSProperties = {
+  flex: 1, fontSize: 12, padding: "2px 4px",
+  background: "#223", color: "#ccd",
+  border: "1px solid #334", borderRadius: 4,
+};
@@ -0,0 +1,398 @@
+import { useState } from "react";
+import { DIRECTION_COUNTS, buildSpriteDirs, symmetricMirrors, type DirectionSetConfig } from "./directions";
+import { PROJECTION_MODES, DIMETRIC_ELEVATION, type ProjectionMode } from "./projection";
+import { ATLAS_FORMATS, type AtlasFormat } from "./atlasMeta";
+import { DITHER_MODES, type DitherMode, type PixelPostSettings } from "./pixelPost";
+import { parsePalette } from "./palette";
+import { OUTLINE_MODES, type OutlineMode, type OutlineSettings } from "./outline";
+import { SPRITE_PASSES } from "./spritePasses";
+import { ENGINE_TARGETS } from "./engineExport";
+import { PAGE_SIZES, type PackSettings } from "./atlasPacker";
+import type { SpriteSettings } from "./spriteSettings";
+
+interface Props {
+  settings: SpriteSettings;
+  onChange: (settings: SpriteSettings) => void;
+  /** Renders the current clip and replaces the palette with its `size` dominant colors. */
+  onExtractPalette: (size: number) => void;
+}
+
+export function SpriteSettingsPanel({ settings, onChange, onExtractPalette }: Props) {
+  const dirs = settings.directions;
+  const post = settings.post;
+  const packing = settings.packing;
+  const [extractSize, setExtractSize] = useState(16);
+  const isCustom = !!dirs.angles && dirs.angles.length > 0;
+  const isIsometric = settings.projection === "isometric";
+  const spriteDirs = buildSpriteDirs(dirs);
+  const mirrorCount = spriteDirs.filter((d) => d.mirrorOf !== undefined).length;
+  const [anglesText, setAnglesText] = useState(() => (dirs.angles ?? []).join(", "));
+
+  function setDirs(patch: Partial<DirectionSetConfig>) {
+    onChange({ ...settings, directions: { ...dirs, ...patch } });
+  }
+
+  function setPost(patch: Partial<PixelPostSettings>) {
+    onChange({ ...settings, post: { ...post, ...patch } });
+  }
+
+  function setPacking(patch: Partial<PackSettings>) {
+    onChange({ ...settings, packing: { ...packing, ...patch } });
+  }
+
+  async function handlePaletteFile(file: File | undefined) {
+    if (!file) return;
+    const palette = parsePalette(await file.text(), file.name);
+    if (palette.length > 0) setPost({ palette });
+  }
+
+  function setOutline(patch: Partial<OutlineSettings>) {
+    onChange({ ...settings, outline: { ...settings.outline, ...patch } });
+  }
+
+  function handleCountChange(value: string) {
+    if (value === "custom") {
+      // Seed the custom list with the current even spacing so nothing jumps
+      const seed = Array.from({ length: dirs.count }, (_, i) => dirs.startAngle + (i * 360) / dirs.count);
+      setAnglesText(seed.join(", "));
+      setDirs({ angles: seed });
+    } else {
+      setDirs({ count: Number(value), angles: undefined });
+    }
+  }
+
+  function setMirror(angle: number, of: string) {
+    const mirrors = { ...dirs.mirrors };
+    if (of === "") delete mirrors[angle];
+    else mirrors[angle] = Number(of);
+    setDirs({ mirrors });
+  }
+
+  function handleAnglesChange(text: string) {
+    setAnglesText(text);
+    const angles = text.split(/[\s,]+/).filter(Boolean).map(Number).filter(Number.isFinite);
+    if (angles.length > 0) setDirs({ angles });
+  }
+
+  return (
+    <div style={sectionStyle}>
+      <div style={rowStyle}>
+        <span style={labelStyle}>Projection</span>
+        <select
+          value={settings.projection}
+          onChange={(e) => onChange({ ...settings, projection: e.target.value as ProjectionMode })}
+          style={inputStyle}
+        >
+          {PROJECTION_MODES.map((m) => (
+            <option key={m.value} value={m.value}>{m.label}</option>
+          ))}
+        </select>
+      </div>
+      <div style={rowStyle}>
+        <span style={labelStyle}>Directions</span>
+        <select
+          value={isCustom ? "custom" : String(dirs.count)}
+          onChange={(e) => handleCountChange(e.target.value)}
+          style={inputStyle}
+        >
+          {DIRECTION_COUNTS.map((n) => (
+            <option key={n} value={n}>{n}</option>
+          ))}
+          <option value="custom">Custom</option>
+        </select>
+      </div>
+      {isCustom ? (
+        <div style={rowStyle}>
+          <span style={labelStyle}>Angles°</span>
+          <input
+            value={anglesText}
+            onChange={(e) => handleAnglesChange(e.target.value)}
+            placeholder="0, 90, 180, 270"
+            style={inputStyle}
+          />
+        </div>
+      ) : (
+        <NumberField label="Start°" value={dirs.startAngle} step={5} onChange={(v) => setDirs({ startAngle: v })} />
+      )}
+      <div style={rowStyle}>
+        <span style={labelStyle}>Mirrors</span>
+        <button onClick={() => setDirs({ mirrors: symmetricMirrors(dirs) })} style={smallBtnStyle} title="Flip each left-side direction from its right-side twin">
+          Symmetric
+        </button>
+        <button onClick={() => setDirs({ mirrors: {} })} disabled={mirrorCount === 0} style={smallBtnStyle}>
+          Clear
+        </button>
+      </div>
+      {spriteDirs.length > 1 && (
+        <div style={{ ...rowStyle, flexWrap: "wrap" }}>
+          {spriteDirs.map((d, di) => (
+            <label key={di} style={{ display: "flex", alignItems: "center", gap: 2 }} title={`${d.label}: render, or flip another direction`}>
+              <span style={{ fontSize: 11, color: "#889" }}>{d.label}</span>
+              <select
+                value={d.mirrorOf !== undefined ? String(spriteDirs[d.mirrorOf]!.angle) : ""}
+                onChange={(e) => setMirror(d.angle, e.target.value)}
+                style={{ ...inputStyle, flex: "none", width: 64 }}
+              >
+                <option value="">render</option>
+                {spriteDirs.filter((o, oi) => oi !== di && o.mirrorOf === undefined).map((o) => (
+                  <option key={o.angle} value={o.angle}>⇋ {o.label}</option>
+                ))}
+              </select>
+            </label>
+          ))}
+        </div>
+      )}
+      {isIsometric ? (
+        <div style={rowStyle}>
+          <span style={labelStyle}>Elevation°</span>
+          <span style={{ fontSize: 11, color: "#889" }}>{DIMETRIC_ELEVATION.toFixed(2)} (2:1)</span>
+        </div>
+      ) : (
+        <NumberField label="Elevation°" value={dirs.elevation} step={5} min={-89} max={89} onChange={(v) => setDirs({ elevation: v })} />
+      )}
+      {settings.projection === "perspective" && (
+        <NumberField label="Distance" value={dirs.distance} step={0.1} min={0.5} onChange={(v) => setDirs({ distance: v })} />
+      )}
+      <div style={rowStyle}>
+        <span style={labelStyle}>Atlas JSON</span>
+        <select
+          value={settings.atlasFormat}
+          onChange={(e) => onChange({ ...settings, atlasFormat: e.target.value as AtlasFormat })}
+          style={inputStyle}
+        >
+          {ATLAS_FORMATS.map((f) => (
+            <option key={f.value} value={f.value}>{f.label}</option>
+          ))}
+        </select>
+      </div>
+      <label style={rowStyle}>
+        <input
+          type="checkbox"
+          checked={settings.rootMotion}
+          disabled={settings.atlasFormat === "none"}
+          onChange={(e) => onChange({ ...settings, rootMotion: e.target.checked })}
+        />
+        <span style={{ fontSize: 11, color: "#889" }}>Root motion in JSON</span>
+      </label>
+      <div style={rowStyle}>
+        <span style={labelStyle}>Engine files</span>
+        {ENGINE_TARGETS.map((t) => (
+          <label key={t.value} style={{ display: "flex", alignItems: "center", gap: 2 }}>
+            <input
+              type="checkbox"
+              checked={settings.engines[t.value]}
+              onChange={(e) => onChange({ ...settings, engines: { ...settings.engines, [t.value]: e.target.checked } })}
+            />
+            <span style={{ fontSize: 11, color: "#889" }}>{t.label}</span>
+          </label>
+        ))}
+      </div>
+      <div style={rowStyle}>
+        <span style={labelStyle}>Packed</span>
+        <label style={{ display: "flex", alignItems: "center", gap: 2 }}>
+          <input
+            type="checkbox"
+            checked={packing.enabled}
+            onChange={(e) => setPacking({ enabled: e.target.checked })}
+          />
+          <span style={{ fontSize: 11, color: "#889" }}>Atlas</span>
+        </label>
+        <label style={{ display: "flex", alignItems: "center", gap: 2 }} title="Pack every clip of the character into one atlas">
+          <input
+            type="checkbox"
+            checked={packing.allClips}
+            disabled={!packing.enabled}
+            onChange={(e) => setPacking({ allClips: e.target.checked })}
+          />
+          <span style={{ fontSize: 11, color: "#889" }}>All clips</span>
+        </label>
+      </div>
+      {packing.enabled && (
+        <>
+          <NumberField label="Padding" value={packing.padding} step={1} min={0} max={8} onChange={(v) => setPacking({ padding: v })} />
+          <div style={rowStyle}>
+            <span style={labelStyle}>Max page</span>
+            <select
+              value={packing.maxPageSize}
+              onChange={(e) => setPacking({ maxPageSize: Number(e.target.value) })}
+              style={inputStyle}
+            >
+              {PAGE_SIZES.map((size) => (
+                <option key={size} value={size}>{size}</option>
+              ))}
+            </select>
+          </div>
+        </>
+      )}
+      <div style={{ ...rowStyle, flexWrap: "wrap" }}>
+        <span style={labelStyle}>Passes</span>
+        {SPRITE_PASSES.map((p) => (
+          <label key={p.value} style={{ display: "flex", alignItems: "center", gap: 2 }}>
+            <input
+              type="checkbox"
+              checked={settings.passes[p.value]}
+              onChange={(e) => onChange({ ...settings, passes: { ...settings.passes, [p.value]: e.target.checked } })}
+            />
+            <span style={{ fontSize: 11, color: "#889" }}>{p.label}</span>
+          </label>
+        ))}
+      </div>
+      <label style={rowStyle}>
+        <input
+          type="checkbox"
+          checked={settings.layers}
+          onChange={(e) => onChange({ ...settings, layers: e.target.checked })}
+        />
+        <span style={{ fontSize: 11, color: "#889" }}>Layered (body + accessories)</span>
+      </label>
+
+      <div style={rowStyle}>
+        <span style={labelStyle}>Palette</span>
+        <span style={{ fontSize: 11, color: "#889" }}>
+          {post.palette.length > 0 ? `${post.palette.length} colors` : "Off (raw colors)"}
+        </span>
+      </div>
+      {post.palette.length > 0 && (
+        <div style={swatchGridStyle}>
+          {post.palette.map((c, i) => (
+            <div key={i} title={`#${c.toString(16).padStart(6, "0")}`} style={swatchStyle(c)} />
+          ))}
+        </div>
+      )}
+      <div style={rowStyle}>
+        <label style={smallBtnStyle}>
+          Load .hex/.gpl
+          <input
+            type="file"
+            accept=".hex,.gpl,.txt"
+            onChange={(e) => handlePaletteFile(e.target.files?.[0])}
+            style={{ display: "none" }}
+          />
+        </label>
+        {post.palette.length > 0 && (
+          <button onClick={() => setPost({ palette: [] })} style={smallBtnStyle}>Clear</button>
+        )}
+      </div>
+      <div style={rowStyle}>
+        <button onClick={() => onExtractPalette(extractSize)} style={smallBtnStyle}>Extract</button>
+        <input
+          type="number"
+          value={extractSize}
+          min={2}
+          max={256}
+          onChange={(e) => setExtractSize(Math.max(2, Math.min(256, e.target.valueAsNumber || 2)))}
+          style={inputStyle}
+        />
+        <span style={{ fontSize: 11, color: "#889" }}>colors</span>
+      </div>
+      <div style={rowStyle}>
+        <span style={labelStyle}>Dither</span>
+        <select
+          value={post.dither}
+          onChange={(e) => setPost({ dither: e.target.value as DitherMode })}
+          disabled={post.palette.length === 0}
+          style={inputStyle}
+        >
+          {DITHER_MODES.map((m) => (
+            <option key={m.value} value={m.value}>{m.label}</option>
+          ))}
+        </select>
+      </div>
+      <NumberField label="Alpha cut" value={post.alphaThreshold} step={8} min={1} max={255} onChange={(v) => setPost({ alphaThreshold: v })} />
+
+      <div style={rowStyle}>
+        <span style={labelStyle}>Outline</span>
+        <select
+          value={settings.outline.mode}
+          onChange={(e) => setOutline({ mode: e.target.value as OutlineMode })}
+          style={inputStyle}
+        >
+          {OUTLINE_MODES.map((m) => (
+            <option key={m.value} value={m.value}>{m.label}</option>
+          ))}
+        </select>
+      </div>
+      {settings.outline.mode !== "none" && (
+        <>
+          <div style={rowStyle}>
+            <span style={labelStyle}>Color</span>
+            <input
+              type="color"
+              value={`#${settings.outline.color.toString(16).padStart(6, "0")}`}
+              onChange={(e) => setOutline({ color: parseInt(e.target.value.slice(1), 16) })}
+              style={{ ...inputStyle, padding: 0, height: 20 }}
+            />
+          </div>
+          <NumberField label="Thickness" value={settings.outline.thickness} step={1} min={1} max={4} onChange={(v) => setOutline({ thickness: v })} />
+        </>
+      )}
+    </div>
+  );
+}
+
+interface NumberFieldProps {
+  label: string;
+  value: number;
+  step?: number;
+  min?: number;
+  max?: number;
+  onChange: (value: number) => void;
+}
+
+export function NumberField({ label, value, step, min, max, onChange }: NumberFieldProps) {
+  return (
+    <label style={rowStyle}>
+      <span style={labelStyle}>{label}</span>
+      <input
+        type="number"
+        value={value}
+        step={step}
+        min={min}
+        max={max}
+        onChange={(e) => {
+          const v = e.target.valueAsNumber;
+          if (Number.isFinite(v)) onChange(v);
+        }}
+        style={inputStyle}
+      />
+    </label>
+  );
+}
+
+// ── Inline styles ────────────────────────────────────────────────────────────
+
+const sectionStyle: React.CSSProperties = {
+  display: "flex", flexDirection: "column", gap: 4,
+  marginTop: 8, paddingTop: 8,
+  borderTop: "1px solid #2a2a4a",
+};
+
+const rowStyle: React.CSSProperties = {
+  display: "flex", alignItems: "center", gap: 6,
+};
+
+const labelStyle: React.CSSProperties = {
+  width: 70, fontSize: 11, color: "#7788aa",
+};
+
+const swatchGridStyle: React.CSSProperties = {
+  display: "flex", flexWrap: "wrap", gap: 1,
+};
+
+const swatchStyle = (color: number): React.CSSProperties => ({
+  width: 10, height: 10,
+  background: `#${color.toString(16).padStart(6, "0")}`,
+});
+
+const smallBtnStyle: React.CSSProperties = {
+  fontSize: 11, padding: "2px 8px",
+  background: "#223", color: "#ccd",
+  border: "1px solid #334", borderRadius: 4, cursor: "pointer",
+  whiteSpace: "nowrap",
+};
+
+const inputStyle: React.CSSProperties = {
+  flex: 1, minWidth: 0, fontSize: 11, padding: "2px 4px",
+  background: "#223", color: "#ccd",
+  border: "1px solid #334", borderRadius: 4,
+};
@@ -0,0 +1,192 @@
+import { useEffect, useRef, useState } from "react";
+import * as THREE from "three";
+
+interface Props {
+  mixerRef: React.RefObject<THREE.AnimationMixer | null>;
+  clipRef: React.RefObject<THREE.AnimationClip | null>;
+  /** Export samples per loop — ticks sit at (i / frameCount) × duration, as in renderSpritesheet. */
+  frameCount: number;
+  playing: boolean;
+  onPlayingChange: (playing: boolean) => void;
+  speed: number;
+  onSpeedChange: (speed: number) => void;
+}
+
+const SPEEDS = [0.1, 0.25, 0.5, 1, 1.5, 2];
+
+/** Export sample index at `time`, or -1 when the pose is between samples. */
+export function sampleIndexAt(time: number, duration: number, frameCount: number): number {
+  if (duration <= 0) return -1;
+  const exact = (time / duration) * frameCount;
+  const i = Math.round(exact);
+  return Math.abs(exact - i) < 1e-4 && i < frameCount ? i : -1;
+}
+
+export function Timeline({ mixerRef, clipRef, frameCount, playing, onPlayingChange, speed, onSpeedChange }: Props) {
+  const [time, setTime] = useState(0);
+  const [duration, setDuration] = useState(0);
+  const trackRef = useRef<HTMLDivElement>(null);
+  const draggingRef = useRef(false);
+
+  // Follow the mixer without re-rendering the whole viewer every frame
+  useEffect(() => {
+    let rafId: number;
+    const loop = () => {
+      rafId = requestAnimationFrame(loop);
+      const mixer = mixerRef.current;
+      const clip = clipRef.current;
+      const t = mixer && clip ? mixer.clipAction(clip).time : 0;
+      setTime((prev) => (prev === t ? prev : t));
+      setDuration(clip?.duration ?? 0);
+    };
+    loop();
+    return () => cancelAnimationFrame(rafId);
+  }, [mixerRef, clipRef]);
+
+  function seek(t: number) {
+    const mixer = mixerRef.current;
+    const clip = clipRef.current;
+    if (!mixer || !clip) return;
+    mixer.clipAction(clip).time = THREE.MathUtils.clamp(t, 0, clip.duration);
+    mixer.update(0);
+  }
+
+  function seekFromPointer(clientX: number) {
+    const rect = trackRef.current?.getBoundingClientRect();
+    if (!rect || duration <= 0) return;
+    seek(((clientX - rect.left) / rect.width) * duration);
+  }
+
+  // Steps to the previous/next export sample, wrapping around the loop
+  function step(dir: 1 | -1) {
+    const mixer = mixerRef.current;
+    const clip = clipRef.current;
+    if (!mixer || !clip || frameCount <= 0) return;
+    onPlayingChange(false);
+    const time = mixer.clipAction(clip).time;
+    const exact = (time / clip.duration) * frameCount;
+    const current = sampleIndexAt(time, clip.duration, frameCount);
+    const next = current >= 0
+      ? current + dir
+      : dir > 0 ? Math.ceil(exact) : Math.floor(exact);
+    const wrapped = ((next % frameCount) + frameCount) % frameCount;
+    seek((wrapped / frameCount) * clip.duration);
+  }
+
+  // Keyboard: ←/→ step between export samples, space toggles playback. The
+  // timeline re-renders every frame, so the listener is registered once and
+  // reads the current handlers through a ref.
+  const keyActionsRef = useRef({ step, togglePlaying: () => onPlayingChange(!playing) });
+  useEffect(() => {
+    keyActionsRef.current = { step, togglePlaying: () => onPlayingChange(!playing) };
+  }, [frameCount, playing, onPlayingChange]);
+
+  useEffect(() => {
+    const onKey = (e: KeyboardEvent) => {
+      const tag = (e.target as HTMLElement | null)?.tagName;
+      if (tag === "INPUT" || tag === "SELECT" || tag === "TEXTAREA") return;
+      const actions = keyActionsRef.current;
+      if (e.key === "ArrowRight") { e.preventDefault(); actions.step(1); }
+      else if (e.key === "ArrowLeft") { e.preventDefault(); actions.step(-1); }
+      else if (e.key === " ") { e.preventDefault(); actions.togglePlaying(); }
+    };
+    window.addEventListener("keydown", onKey);
+    return () => window.removeEventListener("keydown", onKey);
+  }, []);
+
+  const sample = sampleIndexAt(time, duration, frameCount);
+  const pct = duration > 0 ? (time / duration) * 100 : 0;
+
+  return (
+    <div style={barStyle}>
+      <button onClick={() => step(-1)} title="Previous export frame (←)" style={btnStyle}>⏮</button>
+      <button onClick={() => onPlayingChange(!playing)} title="Play/pause (space)" style={btnStyle}>
+        {playing ? "⏸" : "▶"}
+      </button>
+      <button onClick={() => step(1)} title="Next export frame (→)" style={btnStyle}>⏭</button>
+
+      <div
+        ref={trackRef}
+        style={trackStyle}
+        onPointerDown={(e) => {
+          draggingRef.current = true;
+          e.currentTarget.setPointerCapture(e.pointerId);
+          onPlayingChange(false);
+          seekFromPointer(e.clientX);
+        }}
+        onPointerMove={(e) => { if (draggingRef.current) seekFromPointer(e.clientX); }}
+        onPointerUp={() => { draggingRef.current = false; }}
+      >
+        {Array.from({ length: frameCount }, (_, i) => (
+          <div
+            key={i}
+            title={`Export frame ${i}`}
+            style={tickStyle((i / frameCount) * 100, i === sample)}
+          />
+        ))}
+        <div style={{ ...playheadStyle, left: `${pct}%` }} />
+      </div>
+
+      <span style={readoutStyle}>
+        {time.toFixed(2)} / {duration.toFixed(2)}s
+        {sample >= 0 ? ` · frame ${sample}` : ""}
+      </span>
+      <select
+        value={speed}
+        onChange={(e) => onSpeedChange(Number(e.target.value))}
+        title="Playback speed"
+        style={selectStyle}
+      >
+        {SPEEDS.map((s) => (
+          <option key={s} value={s}>{s}×</option>
+        ))}
+      </select>
+    </div>
+  );
+}
+
+// ── Inline styles ────────────────────────────────────────────────────────────
+
+const barStyle: React.CSSProperties = {
+  position: "absolute", bottom: 16, left: "50%", transform: "translateX(-50%)",
+  width: "min(520px, calc(100vw - 560px))", minWidth: 320,
+  display: "flex", alignItems: "center", gap: 6,
+  background: "rgba(10,10,20,0.85)",
+  padding: "6px 10px", borderRadius: 8,
+  border: "1px solid #2a2a4a",
+  backdropFilter: "blur(4px)",
+};
+
+const btnStyle: React.CSSProperties = {
+  width: 26, height: 22, fontSize: 11, padding: 0,
+  background: "#223", color: "#ccd",
+  border: "1px solid #334", borderRadius: 4, cursor: "pointer",
+};
+
+const trackStyle: React.CSSProperties = {
+  position: "relative", flex: 1, height: 18,
+  background: "#1a1a2a", border: "1px solid #334", borderRadius: 4,
+  cursor: "pointer", touchAction: "none",
+};
+
+const tickStyle = (leftPct: number, active: boolean): React.CSSProperties => ({
+  position: "absolute", top: 3, bottom: 3, left: `${leftPct}%`, width: 2,
+  marginLeft: -1, pointerEvents: "none",
+  background: active ? "#88ffbb" : "#445",
+});
+
+const playheadStyle: React.CSSProperties = {
+  position: "absolute", top: -2, bottom: -2, width: 2, marginLeft: -1,
+  background: "#0077cc", pointerEvents: "none",
+};
+
+const readoutStyle: React.CSSProperties = {
+  fontSize: 11, color: "#889", whiteSpace: "nowrap",
+  fontVariantNumeric: "tabular-nums", minWidth: 110,
+};
+
+const selectStyle: React.CSSProperties = {
+  fontSize: 11, padding: "2px 4px",
+  background: "#223", color: "#ccd",
+  border: "1px solid #334", borderRadius: 4,
+};
@@ -1,7 +1,15 @@
 import * as THREE from "three";
+import { GLTFLoader } from "three/examples/jsm/loaders/GLTFLoader.js";
+import { OBJLoader } from "three/examples/jsm/loaders/OBJLoader.js";
+import { HEAD_RADIUS } from "./boneConfig";
+import { strip } from "./boneVisuals";
 
 const PURPLE = new THREE.MeshPhongMaterial({ color: 0x3a1570, flatShading: true, shininess: 30 });
 const GOLD   = new THREE.MeshPhongMaterial({ color: 0xd4a017, flatShading: true, shininess: 100 });
+const STEEL  = new THREE.MeshPhongMaterial({ color: 0xb8c4d0, flatShading: true, shininess: 120 });
+const WOOD   = new THREE.MeshPhongMaterial({ color: 0x6b4423, flatShading: true, shininess: 20 });
+const CANVAS = new THREE.MeshPhongMaterial({ color: 0x4a5a30, flatShading: true, shininess: 10 });
+const BLACK  = new THREE.MeshPhongMaterial({ color: 0x1a1a22, flatShading: true, shininess: 40 });
 
 function mesh(geo: THREE.BufferGeometry, mat: THREE.Material, y: number): THREE.Mesh {
   const m = new THREE.Mesh(geo, mat);
@@ -9,8 +17,8 @@ function mesh(geo: THREE.BufferGeometry, mat: THREE.Material, y: number): THREE.
   return m;
 }
 
-// Build a wizard hat sized relative to `headR` (FBX local space = cm).
-// Add directly to the Head bone — rides with every head rotation.
+// Build a wizard hat sized relative to `headR`, in the same units as `headR`.
+// Positioned relative to the Head bone origin — rides with every head rotation.
 export function createWizardHat(headR: number): THREE.Group {
   const hat = new THREE.Group();
 
@@ -38,3 +46,195 @@ export function createWizardHat(headR: number): THREE.Group {
 
   return hat;
 }
+
+// ── Other built-in accessories (metres) ─────────────────────────────────────
+
+function createTopHat(headR: number): THREE.Group {
+  const hat = new THREE.Group();
+  const brimY = headR * 1.6;
+  hat.add(mesh(new THREE.CylinderGeometry(headR * 1.3, headR * 1.3, headR * 0.08, 20), BLACK, brimY));
+  const crownH = headR * 1.4;
+  hat.add(mesh(new THREE.CylinderGeometry(headR * 0.8, headR * 0.75, crownH, 20), BLACK, brimY + crownH / 2));
+  hat.add(mesh(new THREE.CylinderGeometry(headR * 0.77, headR * 0.77, headR * 0.2, 20), PURPLE, brimY + headR * 0.15));
+  return hat;
+}
+
+// Blade along +Y, grip centred on the origin
+function createSword(): THREE.Group {
+  const sword = new THREE.Group();
+  sword.add(mesh(new THREE.CylinderGeometry(0.016, 0.018, 0.14, 8), WOOD, 0));
+  sword.add(mesh(new THREE.BoxGeometry(0.2, 0.025, 0.04), GOLD, 0.08));
+  sword.add(mesh(new THREE.BoxGeometry(0.05, 0.7, 0.012), STEEL, 0.08 + 0.35));
+  sword.add(mesh(new THREE.SphereGeometry(0.025, 8, 6), GOLD, -0.08));
+  return sword;
+}
+
+// Round shield facing +Z
+function createShield(): THREE.Group {
+  const shield = new THREE.Group();
+  const face = mesh(new THREE.CylinderGeometry(0.26, 0.26, 0.03, 24), WOOD, 0);
+  face.rotation.x = Math.PI / 2;
+  shield.add(face);
+  const boss = mesh(new THREE.SphereGeometry(0.06, 12, 8, 0, Math.PI * 2, 0, Math.PI / 2), STEEL, 0);
+  boss.rotation.x = Math.PI / 2;
+  boss.position.z = 0.015;
+  shield.add(boss);
+  const rim = new THREE.Mesh(new THREE.TorusGeometry(0.26, 0.015, 6, 24), STEEL);
+  shield.add(rim);
+  return shield;
+}
+
+// Pack hanging behind the spine (-Z)
+function createBackpack(): THREE.Group {
+  const pack = new THREE.Group();
+  const body = mesh(new THREE.BoxGeometry(0.3, 0.38, 0.16), CANVAS, 0);
+  body.position.z = -0.08;
+  pack.add(body);
+  const flap = mesh(new THREE.BoxGeometry(0.31, 0.12, 0.17), WOOD, 0.14);
+  flap.position.z = -0.08;
+  pack.add(flap);
+  const roll = new THREE.Mesh(new THREE.CylinderGeometry(0.05, 0.05, 0.34, 10), PURPLE);
+  roll.rotation.z = Math.PI / 2;
+  roll.position.set(0, 0.24, -0.08);
+  pack.add(roll);
+  return pack;
+}
+
+// ── Registry ─────────────────────────────────────────────────────────────────
+
+export type AccessoryModelFormat = "glb" | "obj";
+
+/**
+ * One attachable prop. Offsets are in metres and rotations in radians, both
+ * in the target bone's local frame (Mixamo bones point +Y toward their child).
+ * Builders return geometry in metres; models are loaded once and cloned.
+ */
+export interface AccessoryDef {
+  id: string;
+  label: string;
+  bone: string; // stripped bone name, e.g. "RightHand"
+  offset: [number, number, number];
+  rotation: [number, number, number];
+  scale: number;
+  build?: () => THREE.Object3D;
+  model?: { url: string; format: AccessoryModelFormat };
+  enabledByDefault?: boolean;
+}
+
+export const ACCESSORIES: AccessoryDef[] = [
+  {
+    id: "wizard-hat", label: "Wizard hat", bone: "Head",
+    offset: [0, 0, 0], rotation: [0, 0, 0], scale: 1,
+    build: () => createWizardHat(HEAD_RADIUS),
+    enabledByDefault: true,
+  },
+  {
+    id: "top-hat", label: "Top hat", bone: "Head",
+    offset: [0, 0, 0], rotation: [0, 0, 0], scale: 1,
+    build: () => createTopHat(HEAD_RADIUS),
+  },
+  {
+    id: "sword", label: "Sword", bone: "RightHand",
+    offset: [0, 0.08, 0.02], rotation: [Math.PI / 2, 0, 0], scale: 1,
+    build: createSword,
+  },
+  {
+    id: "shield", label: "Shield", bone: "LeftForeArm",
+    offset: [-0.06, 0.14, 0], rotation: [0, -Math.PI / 2, 0], scale: 1,
+    build: createShield,
+  },
+  {
+    id: "backpack", label: "Backpack", bone: "Spine2",
+    offset: [0, 0.02, -0.12], rotation: [0, 0, 0], scale: 1,
+    build: createBackpack,
+  },
+];
+
+export function defaultAccessoryIds(registry: AccessoryDef[]): string[] {
+  return registry.filter(a => a.enabledByDefault).map(a => a.id);
+}
+
+/** Registry entry for a user-supplied GLB/OBJ file. The object URL lives as long as the page. */
+export function modelAccessory(file: File, bone: string): AccessoryDef {
+  const format: AccessoryModelFormat = /\.obj$/i.test(file.name) ? "obj" : "glb";
+  const stem = file.name.replace(/\.[^.]+$/, "");
+  return {
+    id: `model-${stem}-${Date.now().toString(36)}`,
+    label: stem,
+    bone,
+    offset: [0, 0, 0],
+    rotation: [0, 0, 0],
+    scale: 1,
+    model: { url: URL.createObjectURL(file), format },
+  };
+}
+
+const modelCache = new Map<string, Promise<THREE.Object3D>>();
+
+function loadModel({ url, format }: NonNullable<AccessoryDef["model"]>): Promise<THREE.Object3D> {
+  let model = modelCache.get(url);
+  if (!model) {
+    model = format === "obj"
+      ? new OBJLoader().loadAsync(url)
+      : new GLTFLoader().loadAsync(url).then(gltf => gltf.scene);
+    modelCache.set(url, model);
+  }
+  return model;
+}
+
+async function buildAccessory(def: AccessoryDef): Promise<THREE.Object3D | null> {
+  if (def.build) return def.build();
+  if (def.model) return (await loadModel(def.model)).clone();
+  return null;
+}
+
+/** Removes every accessory previously attached by attachAccessories. */
+export function detachAccessories(root: THREE.Object3D): void {
+  const attached: THREE.Object3D[] = [];
+  root.traverse(obj => { if (obj.userData.accessory) attached.push(obj); });
+  attached.forEach(obj => {
+    obj.removeFromParent();
+    // Model clones share geometry with the cache; disposing only frees GPU buffers
+    obj.traverse(o => { if (o instanceof THREE.Mesh) o.geometry.dispose(); });
+  });
+}
+
+export interface BuiltAccessory {
+  def: AccessoryDef;
+  object: THREE.Object3D;
+}
+
+/** Builds (or loads) the enabled registry entries. Models that fail to load are skipped. */
+export async function buildAccessories(registry: AccessoryDef[], enabled: string[]): Promise<BuiltAccessory[]> {
+  const defs = registry.filter(a => enabled.includes(a.id));
+  const objects = await Promise.all(defs.map(def => buildAccessory(def).catch(() => null)));
+  return defs.flatMap((def, i) => {
+    const object = objects[i];
+    return object ? [{ def, object }] : [];
+  });
+}
+
+/**
+ * Replaces the character's accessories with `built`. Accessories whose bone
+ * is missing from this rig are skipped. Each one sits in a wrapper group
+ * tagged `userData.accessory = id` so it can be found again.
+ */
+export function attachAccessories(bones: THREE.Object3D[], root: THREE.Object3D, built: BuiltAccessory[]): void {
+  detachAccessories(root);
+  root.updateMatrixWorld(true);
+  const worldScale = new THREE.Vector3();
+  built.forEach(({ def, object }) => {
+    const bone = bones.find(b => strip(b.name) === def.bone);
+    if (!bone) return;
+
+    // Bone-local units per metre (FBX bones are in cm under a 0.01 root)
+    const perMetre = 1 / bone.getWorldScale(worldScale).x;
+    const wrapper = new THREE.Group();
+    wrapper.userData.accessory = def.id;
+    wrapper.position.set(...def.offset).multiplyScalar(perMetre);
+    wrapper.rotation.set(...def.rotation);
+    wrapper.scale.setScalar(def.scale * perMetre);
+    wrapper.add(object);
+    bone.add(wrapper);
+  });
+}
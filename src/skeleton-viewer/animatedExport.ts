@@ -0,0 +1,92 @@
+import { renderSpritesheet, type SpriteTarget } from "./spriteExport";
+import { saveExport, type ExportArtifact, type ExportResult } from "./exportSink";
+import { encodeGIF } from "./gifEncoder";
+import { encodeAPNG } from "./pngEncoder";
+import { DEFAULT_SPRITE_PASSES } from "./spritePasses";
+import type { SpriteSettings } from "./spriteSettings";
+
+// Per-direction animated previews for reviewing motion in chat and trackers,
+// rendered through the same pipeline as the spritesheet.
+export interface AnimatedExportSettings {
+  gif: boolean;
+  apng: boolean;
+  background: number | null; // 0xRRGGBB, or null for transparent
+  scale: number;             // integer nearest-neighbour upscale
+}
+
+export const DEFAULT_ANIMATED_EXPORT: AnimatedExportSettings = {
+  gif: true,
+  apng: false,
+  background: null,
+  scale: 3,
+};
+
+export const ANIMATED_SCALES = [1, 2, 3, 4, 6, 8];
+
+/** Nearest-neighbour upscale, optionally flattened onto an opaque background. */
+function prepareFrame(src: ImageData, scale: number, background: number | null): ImageData {
+  const w = src.width * scale, h = src.height * scale;
+  const out = new ImageData(w, h);
+  const bg = background === null ? null : [background >> 16, (background >> 8) & 0xff, background & 0xff];
+  for (let y = 0; y < h; y++) {
+    for (let x = 0; x < w; x++) {
+      const s = (Math.floor(y / scale) * src.width + Math.floor(x / scale)) * 4;
+      const d = (y * w + x) * 4;
+      if (bg) {
+        const a = src.data[s + 3]! / 255;
+        for (let c = 0; c < 3; c++) out.data[d + c] = src.data[s + c]! * a + bg[c]! * (1 - a);
+        out.data[d + 3] = 255;
+      } else {
+        out.data.set(src.data.subarray(s, s + 4), d);
+      }
+    }
+  }
+  return out;
+}
+
+/**
+ * Per-frame delays (in 1 / unitsPerSecond s) that add up to the clip's real
+ * duration — rounding error is carried over instead of accumulating.
+ */
+function frameDelays(frameDuration: number, frameCount: number, unitsPerSecond: number): number[] {
+  const step = frameDuration * unitsPerSecond;
+  return Array.from({ length: frameCount }, (_, i) => Math.round((i + 1) * step) - Math.round(i * step));
+}
+
+const fileSafe = (label: string) => label.replace(/°/g, "deg").replace(/[^\w.-]+/g, "_");
+
+/**
+ * Renders the clip once and saves one looping GIF and/or APNG per sprite
+ * direction, timed at clip.duration / frameCount per frame.
+ */
+export async function exportAnimatedPreviews(
+  target: SpriteTarget,
+  spriteSettings: SpriteSettings,
+  settings: AnimatedExportSettings,
+): Promise<ExportResult | null> {
+  if (!settings.gif && !settings.apng) return null;
+  const sheet = renderSpritesheet(target, {
+    ...spriteSettings,
+    passes: DEFAULT_SPRITE_PASSES,
+    layers: false,
+    rootMotion: false,
+  });
+  const { frameCount, frameSize } = sheet;
+  const ctx = sheet.canvas.getContext("2d")!;
+  const scale = Math.max(1, Math.round(settings.scale));
+
+  // GIF timing is in centiseconds; APNG takes a fraction, written here in ms
+  const gifDelays = frameDelays(sheet.frameDuration, frameCount, 100);
+  const apngDelays = frameDelays(sheet.frameDuration, frameCount, 1000);
+
+  const artifacts: ExportArtifact[] = [];
+  for (let di = 0; di < sheet.dirs.length; di++) {
+    const frames = Array.from({ length: frameCount }, (_, fi) =>
+      prepareFrame(ctx.getImageData(fi * frameSize, di * frameSize, frameSize, frameSize), scale, settings.background),
+    );
+    const base = `${sheet.name}-${fileSafe(sheet.dirs[di]!.label)}`;
+    if (settings.gif) artifacts.push({ name: `${base}.gif`, data: encodeGIF(frames, gifDelays) });
+    if (settings.apng) artifacts.push({ name: `${base}.png`, data: await encodeAPNG(frames, apngDelays) });
+  }
+  return saveExport({ character: target.character, clip: target.clip.name, kind: "animated" }, artifacts);
+}
@@ -0,0 +1,202 @@
+import type { SpriteSheet } from "./spriteExport";
+import { passImageName } from "./spritePasses";
+
+export type AtlasFormat = "texturepacker-hash" | "texturepacker-array" | "aseprite" | "none";
+
+export const ATLAS_FORMATS: { value: AtlasFormat; label: string }[] = [
+  { value: "texturepacker-hash", label: "TexturePacker (hash)" },
+  { value: "texturepacker-array", label: "TexturePacker (array)" },
+  { value: "aseprite", label: "Aseprite" },
+  { value: "none", label: "None (PNG only)" },
+];
+
+interface Rect { x: number; y: number; w: number; h: number }
+
+export interface AtlasFrame {
+  name: string;
+  rect: Rect;
+  durationMs: number;
+  pivot: { x: number; y: number }; // normalized, top-left origin
+}
+
+export interface AtlasTag {
+  name: string; // direction label
+  from: number; // first frame index (inclusive)
+  to: number;   // last frame index (inclusive)
+}
+
+/** One frame per cell, row-major: direction rows × frame columns. */
+export function sheetFrames(sheet: SpriteSheet): AtlasFrame[] {
+  const { frameCount, frameSize, dirs, pivots } = sheet;
+  const durationMs = Math.round(sheet.frameDuration * 1000);
+  const frames: AtlasFrame[] = [];
+  dirs.forEach((dir, di) => {
+    const [px, py] = pivots[di] ?? [0.5, 1];
+    for (let fi = 0; fi < frameCount; fi++) {
+      frames.push({
+        name: `${sheet.name}_${dir.label}_${fi}`,
+        rect: { x: fi * frameSize, y: di * frameSize, w: frameSize, h: frameSize },
+        durationMs,
+        pivot: { x: px, y: py },
+      });
+    }
+  });
+  return frames;
+}
+
+export function sheetTags(sheet: SpriteSheet): AtlasTag[] {
+  return sheet.dirs.map((dir, di) => ({
+    name: dir.label,
+    from: di * sheet.frameCount,
+    to: (di + 1) * sheet.frameCount - 1,
+  }));
+}
+
+/**
+ * Directions drawn as a horizontal flip of another: label → source label.
+ * Their frames are in the sheet too, but an engine can skip them and flip the
+ * source at runtime instead.
+ */
+export function sheetMirrors(sheet: SpriteSheet): Record<string, { of: string; flipX: true }> {
+  return Object.fromEntries(sheet.dirs.flatMap(dir =>
+    dir.mirrorOf === undefined ? [] : [[dir.label, { of: sheet.dirs[dir.mirrorOf]!.label, flipX: true as const }]]));
+}
+
+/**
+ * Builds the JSON sidecar for a rendered sheet. `image` is the PNG file name
+ * the JSON will sit next to.
+ */
+export function buildAtlasMetadata(sheet: SpriteSheet, format: AtlasFormat, image: string): object | null {
+  const frames = sheetFrames(sheet);
+  const tags = sheetTags(sheet);
+  const size = { w: sheet.canvas.width, h: sheet.canvas.height };
+  const mirrors = sheetMirrors(sheet);
+
+  const extra = {
+    ...(sheet.rootMotion ? { rootMotion: sheet.rootMotion } : {}),
+    ...(sheet.passes.length ? { passes: passMeta(sheet, image) } : {}),
+    ...(Object.keys(mirrors).length ? { mirrors } : {}),
+  };
+
+  switch (format) {
+    case "texturepacker-hash":
+    case "texturepacker-array":
+      return withMeta(texturePacker(frames, tags, size, image, sheet.clipName, format === "texturepacker-hash"), extra);
+    case "aseprite":
+      return withMeta(aseprite(frames, tags, size, image), extra);
+    case "none":
+      return null;
+  }
+}
+
+// Both formats tolerate extra keys in `meta`; engines read what they know.
+function withMeta<T extends { meta: object }>(json: T, extra: object): T {
+  return { ...json, meta: { ...json.meta, ...extra } };
+}
+
+// Pass sheets share the color sheet's frame rects, so only the image and the
+// decoding info are listed.
+function passMeta(sheet: SpriteSheet, image: string) {
+  return Object.fromEntries(sheet.passes.map(({ pass }) => {
+    const file = passImageName(image, pass);
+    switch (pass) {
+      case "normal":
+        return [pass, { image: file, encoding: "view-space, rgb = n * 0.5 + 0.5 (mirrored rows: x negated)" }];
+      case "depth":
+        return [pass, {
+          image: file,
+          encoding: "linear, 1 = near, 0 = far",
+          ranges: Object.fromEntries(sheet.dirs.map((d, di) => [d.label, sheet.depthRanges[di]])),
+        }];
+      case "limbId":
+        return [pass, {
+          image: file,
+          encoding: "r = limb index + 1, 0 = none (mirrored rows: left/right limbs swapped)",
+          limbNames: sheet.limbNames,
+        }];
+    }
+  }));
+}
+
+function texturePackerFrame(f: AtlasFrame) {
+  return {
+    frame: f.rect,
+    rotated: false,
+    trimmed: false,
+    spriteSourceSize: { x: 0, y: 0, w: f.rect.w, h: f.rect.h },
+    sourceSize: { w: f.rect.w, h: f.rect.h },
+    pivot: f.pivot,
+    duration: f.durationMs,
+  };
+}
+
+// TexturePacker JSON (hash or array) plus an `animations` map — the
+// direction → frame-name lists that PixiJS and Phaser read directly.
+function texturePacker(
+  frames: AtlasFrame[],
+  tags: AtlasTag[],
+  size: { w: number; h: number },
+  image: string,
+  clipName: string,
+  hash: boolean,
+) {
+  const animations: Record<string, string[]> = {};
+  tags.forEach(t => {
+    animations[t.name] = frames.slice(t.from, t.to + 1).map(f => f.name);
+  });
+
+  return {
+    frames: hash
+      ? Object.fromEntries(frames.map(f => [f.name, texturePackerFrame(f)]))
+      : frames.map(f => ({ filename: f.name, ...texturePackerFrame(f) })),
+    animations,
+    meta: {
+      app: "animation-3",
+      version: "1.0",
+      image,
+      format: "RGBA8888",
+      size,
+      scale: "1",
+      clip: clipName,
+      frameTags: tags.map(t => ({ ...t, direction: "forward" })),
+    },
+  };
+}
+
+// Aseprite "json-array" export. Pivots become one slice per direction, keyed
+// at the direction's first frame — that is how Aseprite stores pivots.
+function aseprite(frames: AtlasFrame[], tags: AtlasTag[], size: { w: number; h: number }, image: string) {
+  return {
+    frames: frames.map(f => ({
+      filename: f.name,
+      frame: f.rect,
+      rotated: false,
+      trimmed: false,
+      spriteSourceSize: { x: 0, y: 0, w: f.rect.w, h: f.rect.h },
+      sourceSize: { w: f.rect.w, h: f.rect.h },
+      duration: f.durationMs,
+    })),
+    meta: {
+      app: "animation-3",
+      version: "1.0",
+      image,
+      format: "RGBA8888",
+      size,
+      scale: "1",
+      frameTags: tags.map(t => ({ name: t.name, from: t.from, to: t.to, direction: "forward" })),
+      layers: [{ name: "body", opacity: 255, blendMode: "normal" }],
+      slices: tags.map(t => {
+        const f = frames[t.from]!;
+        return {
+          name: `pivot_${t.name}`,
+          color: "#0000ffff",
+          keys: [{
+            frame: t.from,
+            bounds: { x: 0, y: 0, w: f.rect.w, h: f.rect.h },
+            pivot: { x: Math.round(f.pivot.x * f.rect.w), y: Math.round(f.pivot.y * f.rect.h) },
+          }],
+        };
+      }),
+    },
+  };
+}
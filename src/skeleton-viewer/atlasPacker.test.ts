@@ -0,0 +1,219 @@
+import { afterAll, beforeAll, describe, expect, test } from "bun:test";
+import { buildPackedAtlasJSON, packSheets, type PackSettings } from "./atlasPacker";
+import type { SpriteSheet } from "./spriteExport";
+
+type Pixels = { data: Uint8ClampedArray; width: number; height: number };
+
+// Just enough of a 2D canvas for the packer: RGBA pixels in, RGBA pixels out
+function fakeCanvas(width = 0, height = 0): HTMLCanvasElement {
+  let pixels: Uint8ClampedArray | null = null;
+  const canvas = { width, height, getContext: () => ctx };
+  const buffer = () => pixels ??= new Uint8ClampedArray(canvas.width * canvas.height * 4);
+  const ctx = {
+    getImageData(x: number, y: number, w: number, h: number): Pixels {
+      const data = new Uint8ClampedArray(w * h * 4);
+      for (let row = 0; row < h; row++) {
+        const from = ((y + row) * canvas.width + x) * 4;
+        data.set(buffer().subarray(from, from + w * 4), row * w * 4);
+      }
+      return { data, width: w, height: h };
+    },
+    putImageData(img: Pixels, x: number, y: number) {
+      for (let row = 0; row < img.height; row++) {
+        if (x < 0 || y + row < 0 || x + img.width > canvas.width || y + row >= canvas.height) {
+          throw new Error("putImageData outside the canvas");
+        }
+        const src = img.data.subarray(row * img.width * 4, (row + 1) * img.width * 4);
+        buffer().set(src, ((y + row) * canvas.width + x) * 4);
+      }
+    },
+  };
+  return canvas as unknown as HTMLCanvasElement;
+}
+
+const ctxOf = (c: HTMLCanvasElement) => c.getContext("2d")!;
+
+function fill(canvas: HTMLCanvasElement, x: number, y: number, w: number, h: number, rgba: (px: number, py: number) => number[]) {
+  const img = ctxOf(canvas).getImageData(x, y, w, h);
+  for (let py = 0; py < h; py++) {
+    for (let px = 0; px < w; px++) img.data.set(rgba(px, py), (py * w + px) * 4);
+  }
+  ctxOf(canvas).putImageData(img, x, y);
+}
+
+const SIZE = 8;
+
+// Directions E and W, three 8 px frames each:
+//   E_0  3×2 red block        E_1  same as E_0        E_2  fully opaque gradient
+//   W_0  empty                W_1  single corner pixel W_2  5×4 translucent block
+function sheet(clipName = "Walk"): SpriteSheet {
+  const canvas = fakeCanvas(3 * SIZE, 2 * SIZE);
+  fill(canvas, 2, 3, 3, 2, () => [255, 0, 0, 255]);
+  fill(canvas, SIZE + 2, 3, 3, 2, () => [255, 0, 0, 255]);
+  fill(canvas, 2 * SIZE, 0, SIZE, SIZE, (x, y) => [x * 30, y * 30, 7, 255]);
+  fill(canvas, 2 * SIZE - 1, 2 * SIZE - 1, 1, 1, () => [1, 2, 3, 4]);
+  fill(canvas, 2 * SIZE + 1, SIZE + 2, 5, 4, (x, y) => [0, x, y, 128]);
+  return {
+    canvas,
+    name: `hero_${clipName.toLowerCase()}`,
+    clipName,
+    dirs: [
+      { label: "E", angle: 90, pos: [1, 0, 0] },
+      { label: "W", angle: 270, pos: [-1, 0, 0] },
+    ],
+    frameCount: 3,
+    frameSize: SIZE,
+    frameDuration: 0.1,
+    pivots: [[0.5, 1], [0.25, 0.75]],
+    rootMotion: null,
+    passes: [],
+    depthRanges: [],
+    limbNames: [],
+    layers: [],
+  };
+}
+
+const settings = (over: Partial<PackSettings> = {}): PackSettings =>
+  ({ enabled: true, allClips: false, padding: 1, maxPageSize: 256, ...over });
+
+const isPowerOfTwo = (v: number) => v > 0 && (v & (v - 1)) === 0;
+
+let prevDocument: Document;
+beforeAll(() => {
+  prevDocument = globalThis.document;
+  globalThis.document = { createElement: () => fakeCanvas() } as unknown as Document;
+});
+afterAll(() => {
+  globalThis.document = prevDocument;
+});
+
+describe("packSheets", () => {
+  test("trims frames to their opaque bounds", () => {
+    const { frames } = packSheets([sheet()], settings());
+    const byName = Object.fromEntries(frames.map(f => [f.name, f]));
+    expect(byName.hero_walk_E_0!.sourceRect).toEqual({ x: 2, y: 3, w: 3, h: 2 });
+    expect(byName.hero_walk_E_2!.sourceRect).toEqual({ x: 0, y: 0, w: SIZE, h: SIZE });
+    expect(byName.hero_walk_W_0!.sourceRect).toEqual({ x: 0, y: 0, w: 1, h: 1 });
+    expect(byName.hero_walk_W_1!.sourceRect).toEqual({ x: 7, y: 7, w: 1, h: 1 });
+    expect(byName.hero_walk_W_2!.sourceRect).toEqual({ x: 1, y: 2, w: 5, h: 4 });
+    frames.forEach(f => expect(f.sourceSize).toEqual({ w: SIZE, h: SIZE }));
+    expect(byName.hero_walk_W_1).toMatchObject({ clip: "Walk", direction: "W", durationMs: 100, pivot: { x: 0.25, y: 0.75 } });
+  });
+
+  test("stores identical frames once, across clips too", () => {
+    const { frames } = packSheets([sheet("Walk"), sheet("Run")], settings());
+    const byName = Object.fromEntries(frames.map(f => [f.name, f]));
+    const e0 = byName.hero_walk_E_0!;
+    expect(e0.duplicateOf).toBeNull();
+    expect(byName.hero_walk_E_1).toMatchObject({ duplicateOf: "hero_walk_E_0", page: e0.page, frame: e0.frame });
+    expect(byName.hero_run_E_0).toMatchObject({ duplicateOf: "hero_walk_E_0", frame: e0.frame });
+    expect(byName.hero_run_W_2!.duplicateOf).toBe("hero_walk_W_2");
+    expect(frames.filter(f => f.duplicateOf === null).map(f => f.name)).toEqual([
+      "hero_walk_E_0", "hero_walk_E_2", "hero_walk_W_0", "hero_walk_W_1", "hero_walk_W_2",
+    ]);
+  });
+
+  test("packs without overlaps, keeping the padding between frames", () => {
+    const pad = 2;
+    const { pages, frames } = packSheets([sheet()], settings({ padding: pad }));
+    const uniques = frames.filter(f => f.duplicateOf === null);
+    uniques.forEach((a, i) => {
+      const page = pages[a.page]!;
+      expect(a.frame.x + a.frame.w).toBeLessThanOrEqual(page.width);
+      expect(a.frame.y + a.frame.h).toBeLessThanOrEqual(page.height);
+      uniques.slice(i + 1).filter(b => b.page === a.page).forEach(b => {
+        const apart = a.frame.x + a.frame.w + pad <= b.frame.x || b.frame.x + b.frame.w + pad <= a.frame.x
+          || a.frame.y + a.frame.h + pad <= b.frame.y || b.frame.y + b.frame.h + pad <= a.frame.y;
+        expect(apart).toBe(true);
+      });
+    });
+  });
+
+  test("shrinks pages to power-of-two sizes and spills onto new pages", () => {
+    const one = packSheets([sheet()], settings());
+    expect(one.pages).toHaveLength(1);
+    const page = one.pages[0]!;
+    expect(isPowerOfTwo(page.width) && isPowerOfTwo(page.height)).toBe(true);
+    // Smallest power of two holding the packed frames, not the 256 px maximum
+    const right = Math.max(...one.frames.map(f => f.frame.x + f.frame.w));
+    const bottom = Math.max(...one.frames.map(f => f.frame.y + f.frame.h));
+    expect(right).toBeLessThanOrEqual(page.width);
+    expect(right).toBeGreaterThan(page.width / 2);
+    expect(bottom).toBeLessThanOrEqual(page.height);
+    expect(bottom).toBeGreaterThan(page.height / 2);
+
+    // The opaque 8×8 frame fills a whole page by itself
+    const spilled = packSheets([sheet()], settings({ padding: 0, maxPageSize: SIZE }));
+    expect(spilled.pages.length).toBeGreaterThan(1);
+    spilled.pages.forEach(p => {
+      expect(isPowerOfTwo(p.width) && isPowerOfTwo(p.height)).toBe(true);
+      expect(Math.max(p.width, p.height)).toBeLessThanOrEqual(SIZE);
+    });
+    const full = spilled.frames.find(f => f.name === "hero_walk_E_2")!;
+    expect(spilled.frames.filter(f => f.page === full.page && f.duplicateOf === null)).toHaveLength(1);
+  });
+
+  test("drawing each frame at its source rect restores the original cell", () => {
+    for (const pack of [settings(), settings({ padding: 0, maxPageSize: SIZE })]) {
+      const s = sheet();
+      const { pages, frames } = packSheets([s], pack);
+      frames.forEach((f, i) => {
+        const cell = fakeCanvas(SIZE, SIZE);
+        ctxOf(cell).putImageData(
+          ctxOf(pages[f.page]!).getImageData(f.frame.x, f.frame.y, f.frame.w, f.frame.h),
+          f.sourceRect.x, f.sourceRect.y);
+        const original = ctxOf(s.canvas).getImageData((i % 3) * SIZE, Math.floor(i / 3) * SIZE, SIZE, SIZE);
+        expect(ctxOf(cell).getImageData(0, 0, SIZE, SIZE).data).toEqual(original.data);
+      });
+    }
+  });
+
+  test("rejects frames larger than a page", () => {
+    expect(() => packSheets([sheet()], settings({ maxPageSize: 4 })))
+      .toThrow("Frame hero_walk_E_2 (8×8) does not fit a 4px page");
+    // Padding counts towards the page size
+    expect(() => packSheets([sheet()], settings({ padding: 1, maxPageSize: SIZE }))).toThrow("does not fit");
+  });
+});
+
+describe("buildPackedAtlasJSON", () => {
+  test("lists frames per page, animations per clip and direction, and duplicates", () => {
+    const sheets = [sheet("Walk"), sheet("Run")];
+    sheets[1]!.dirs[1]!.mirrorOf = 0;
+    const atlas = packSheets(sheets, settings({ padding: 0, maxPageSize: SIZE }));
+    const json = buildPackedAtlasJSON(atlas, sheets, "hero");
+
+    expect(json.textures.map(t => t.image)).toEqual(atlas.pages.map((_, i) => `hero-packed-${i}.png`));
+    json.textures.forEach((t, i) =>
+      expect(t.size).toEqual({ w: atlas.pages[i]!.width, h: atlas.pages[i]!.height }));
+    const entries = json.textures.flatMap(t => t.frames);
+    expect(entries).toHaveLength(12);
+
+    const entry = (filename: string) => entries.find(e => e.filename === filename)!;
+    const e0 = entry("hero_walk_E_0");
+    expect(e0).toMatchObject({
+      rotated: false,
+      trimmed: true,
+      sourceSize: { w: SIZE, h: SIZE },
+      spriteSourceSize: { x: 2, y: 3, w: 3, h: 2 },
+      pivot: { x: 0.5, y: 1 },
+      duration: 100,
+    });
+    expect(entry("hero_walk_E_2").trimmed).toBe(false);
+    expect(entry("hero_run_E_1").frame).toEqual(e0.frame);
+
+    expect(json.animations).toEqual({
+      "Walk/E": ["hero_walk_E_0", "hero_walk_E_1", "hero_walk_E_2"],
+      "Walk/W": ["hero_walk_W_0", "hero_walk_W_1", "hero_walk_W_2"],
+      "Run/E": ["hero_run_E_0", "hero_run_E_1", "hero_run_E_2"],
+      "Run/W": ["hero_run_W_0", "hero_run_W_1", "hero_run_W_2"],
+    });
+    expect(json.meta.clips).toEqual([
+      { name: "Walk", frameCount: 3, frameDuration: 0.1, directions: ["E", "W"] },
+      { name: "Run", frameCount: 3, frameDuration: 0.1, directions: ["E", "W"], mirrors: { W: { of: "E", flipX: true } } },
+    ]);
+    expect(json.meta.duplicates.hero_walk_E_1).toBe("hero_walk_E_0");
+    expect(json.meta.duplicates.hero_walk_E_0).toBeUndefined();
+    expect(Object.keys(json.meta.duplicates)).toHaveLength(7);
+  });
+});
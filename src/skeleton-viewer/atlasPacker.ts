@@ -0,0 +1,295 @@
+import type { SpriteSheet } from "./spriteExport";
+import { sheetFrames, sheetMirrors } from "./atlasMeta";
+import type { RootMotionData } from "./rootMotion";
+
+// Optional packed atlas written next to the grid sheet: frames trimmed to
+// their opaque bounds, identical frames stored once, and everything packed
+// into power-of-two pages with a MaxRects bin packer.
+
+export interface PackSettings {
+  enabled: boolean;
+  allClips: boolean;   // pack every clip of the character into one atlas
+  padding: number;     // transparent pixels between packed frames
+  maxPageSize: number; // power of two; frames that don't fit start a new page
+}
+
+export const DEFAULT_PACK_SETTINGS: PackSettings = {
+  enabled: false,
+  allClips: false,
+  padding: 1,
+  maxPageSize: 2048,
+};
+
+export const PAGE_SIZES = [256, 512, 1024, 2048, 4096];
+
+interface Rect { x: number; y: number; w: number; h: number }
+
+export interface PackedFrame {
+  name: string;
+  clip: string;
+  direction: string;
+  page: number;
+  frame: Rect;         // packed region on the page
+  sourceRect: Rect;    // where the trimmed pixels sat in the untrimmed cell
+  sourceSize: { w: number; h: number };
+  duplicateOf: string | null; // first frame with identical pixels (same region)
+  durationMs: number;
+  pivot: { x: number; y: number }; // normalized, untrimmed cell, top-left origin
+}
+
+export interface PackedAtlas {
+  pages: HTMLCanvasElement[];
+  frames: PackedFrame[];
+}
+
+export interface PackedAtlasFrameJSON {
+  filename: string;
+  rotated: false;
+  trimmed: boolean;
+  sourceSize: { w: number; h: number };
+  spriteSourceSize: Rect;
+  frame: Rect;
+  pivot: { x: number; y: number };
+  duration: number; // ms
+}
+
+export interface PackedAtlasJSON {
+  textures: {
+    image: string;
+    format: "RGBA8888";
+    size: { w: number; h: number };
+    scale: 1;
+    frames: PackedAtlasFrameJSON[];
+  }[];
+  animations: Record<string, string[]>; // "clip/direction" → frame names
+  meta: {
+    app: string;
+    version: string;
+    clips: {
+      name: string;
+      frameCount: number;
+      frameDuration: number;
+      directions: string[];
+      mirrors?: ReturnType<typeof sheetMirrors>;
+      rootMotion?: RootMotionData;
+    }[];
+    duplicates: Record<string, string>; // frame name → frame it shares pixels with
+  };
+}
+
+export const packedPageName = (name: string, page: number) => `${name}-packed-${page}.png`;
+export const packedAtlasName = (name: string) => `${name}-packed.json`;
+
+/** Tight bounds of the non-transparent pixels, or null for an empty frame. */
+function opaqueBounds(img: ImageData): Rect | null {
+  const { data, width, height } = img;
+  let minX = width, minY = height, maxX = -1, maxY = -1;
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      if (data[(y * width + x) * 4 + 3]! === 0) continue;
+      if (x < minX) minX = x;
+      if (x > maxX) maxX = x;
+      if (y < minY) minY = y;
+      if (y > maxY) maxY = y;
+    }
+  }
+  return maxX < 0 ? null : { x: minX, y: minY, w: maxX - minX + 1, h: maxY - minY + 1 };
+}
+
+// FNV-1a over the pixel bytes — candidates are compared byte for byte after
+function hashPixels(data: Uint8ClampedArray): number {
+  let h = 0x811c9dc5;
+  for (let i = 0; i < data.length; i++) {
+    h ^= data[i]!;
+    h = Math.imul(h, 0x01000193);
+  }
+  return h >>> 0;
+}
+
+function samePixels(a: Uint8ClampedArray, b: Uint8ClampedArray): boolean {
+  if (a.length !== b.length) return false;
+  for (let i = 0; i < a.length; i++) if (a[i] !== b[i]) return false;
+  return true;
+}
+
+/**
+ * MaxRects bin (Jukka Jylänki's "best short side fit"): keeps the maximal
+ * free rectangles, places each rect where the leftover short side is
+ * smallest, then splits and prunes the free list.
+ */
+function createMaxRectsBin(width: number, height: number) {
+  let free: Rect[] = [{ x: 0, y: 0, w: width, h: height }];
+
+  const contains = (a: Rect, b: Rect) =>
+    b.x >= a.x && b.y >= a.y && b.x + b.w <= a.x + a.w && b.y + b.h <= a.y + a.h;
+
+  function split(f: Rect, used: Rect): Rect[] {
+    if (used.x >= f.x + f.w || used.x + used.w <= f.x || used.y >= f.y + f.h || used.y + used.h <= f.y) {
+      return [f];
+    }
+    const out: Rect[] = [];
+    if (used.x > f.x) out.push({ x: f.x, y: f.y, w: used.x - f.x, h: f.h });
+    if (used.x + used.w < f.x + f.w) out.push({ x: used.x + used.w, y: f.y, w: f.x + f.w - used.x - used.w, h: f.h });
+    if (used.y > f.y) out.push({ x: f.x, y: f.y, w: f.w, h: used.y - f.y });
+    if (used.y + used.h < f.y + f.h) out.push({ x: f.x, y: used.y + used.h, w: f.w, h: f.y + f.h - used.y - used.h });
+    return out;
+  }
+
+  return {
+    insert(w: number, h: number): Rect | null {
+      let best: Rect | null = null;
+      let bestShort = Infinity, bestLong = Infinity;
+      for (const f of free) {
+        if (f.w < w || f.h < h) continue;
+        const short = Math.min(f.w - w, f.h - h);
+        const long = Math.max(f.w - w, f.h - h);
+        if (short < bestShort || (short === bestShort && long < bestLong)) {
+          best = { x: f.x, y: f.y, w, h };
+          bestShort = short;
+          bestLong = long;
+        }
+      }
+      if (!best) return null;
+
+      const placed = best;
+      free = free.flatMap(f => split(f, placed));
+      free = free.filter((f, i) => !free.some((g, j) => j !== i && contains(g, f) && (!contains(f, g) || j < i)));
+      return placed;
+    },
+  };
+}
+
+const nextPowerOfTwo = (v: number) => 2 ** Math.ceil(Math.log2(Math.max(1, v)));
+
+/**
+ * Trims, deduplicates and packs every frame of `sheets` (one per clip).
+ * Each page is shrunk to the smallest power-of-two size holding its frames.
+ */
+export function packSheets(sheets: SpriteSheet[], settings: PackSettings): PackedAtlas {
+  const pad = Math.max(0, Math.floor(settings.padding));
+  const maxSize = settings.maxPageSize;
+
+  interface Unique { pixels: ImageData; page: number; frame: Rect; name: string }
+  const uniques: Unique[] = [];
+  const byHash = new Map<number, Unique[]>();
+  const frames: (Omit<PackedFrame, "page" | "frame"> & { unique: Unique })[] = [];
+
+  sheets.forEach(sheet => {
+    const ctx = sheet.canvas.getContext("2d")!;
+    sheetFrames(sheet).forEach((f, i) => {
+      const cell = ctx.getImageData(f.rect.x, f.rect.y, f.rect.w, f.rect.h);
+      // Empty frames keep a 1×1 transparent region so every frame has a rect
+      const trim = opaqueBounds(cell) ?? { x: 0, y: 0, w: 1, h: 1 };
+      const pixels = ctx.getImageData(f.rect.x + trim.x, f.rect.y + trim.y, trim.w, trim.h);
+      if (trim.w + pad > maxSize || trim.h + pad > maxSize) {
+        throw new Error(`Frame ${f.name} (${trim.w}×${trim.h}) does not fit a ${maxSize}px page`);
+      }
+
+      const hash = hashPixels(pixels.data);
+      const candidates = byHash.get(hash) ?? [];
+      let unique = candidates.find(u =>
+        u.pixels.width === trim.w && u.pixels.height === trim.h && samePixels(u.pixels.data, pixels.data));
+      const duplicateOf = unique ? unique.name : null;
+      if (!unique) {
+        unique = { pixels, page: -1, frame: { x: 0, y: 0, w: trim.w, h: trim.h }, name: f.name };
+        candidates.push(unique);
+        byHash.set(hash, candidates);
+        uniques.push(unique);
+      }
+
+      frames.push({
+        name: f.name,
+        clip: sheet.clipName,
+        direction: sheet.dirs[Math.floor(i / sheet.frameCount)]!.label,
+        sourceRect: trim,
+        sourceSize: { w: f.rect.w, h: f.rect.h },
+        duplicateOf,
+        durationMs: f.durationMs,
+        pivot: f.pivot,
+        unique,
+      });
+    });
+  });
+
+  // Largest first packs tightest
+  const order = [...uniques].sort((a, b) =>
+    Math.max(b.frame.w, b.frame.h) - Math.max(a.frame.w, a.frame.h) || b.frame.w * b.frame.h - a.frame.w * a.frame.h);
+  const bins: ReturnType<typeof createMaxRectsBin>[] = [];
+  const extents: { w: number; h: number }[] = [];
+  order.forEach(u => {
+    for (let page = 0; ; page++) {
+      if (!bins[page]) {
+        // Padding is added on the right/bottom of each frame, so the bin gets it too
+        bins[page] = createMaxRectsBin(maxSize + pad, maxSize + pad);
+        extents[page] = { w: 0, h: 0 };
+      }
+      const spot = bins[page]!.insert(u.frame.w + pad, u.frame.h + pad);
+      if (!spot) continue;
+      u.page = page;
+      u.frame = { x: spot.x, y: spot.y, w: u.frame.w, h: u.frame.h };
+      const extent = extents[page]!;
+      extent.w = Math.max(extent.w, spot.x + u.frame.w);
+      extent.h = Math.max(extent.h, spot.y + u.frame.h);
+      return;
+    }
+  });
+
+  const pages = extents.map(e => {
+    const canvas = document.createElement("canvas");
+    canvas.width = nextPowerOfTwo(e.w);
+    canvas.height = nextPowerOfTwo(e.h);
+    return canvas;
+  });
+  uniques.forEach(u => pages[u.page]!.getContext("2d")!.putImageData(u.pixels, u.frame.x, u.frame.y));
+
+  return {
+    pages,
+    frames: frames.map(({ unique, ...f }) => ({ ...f, page: unique.page, frame: unique.frame })),
+  };
+}
+
+/**
+ * Multi-page atlas JSON in the TexturePacker / Phaser 3 "multiatlas" layout.
+ * Engines restore the untrimmed placement by drawing `frame` at
+ * `spriteSourceSize.x/y` inside a `sourceSize` box; duplicates simply point
+ * at the same region. `animations` lists frame names per clip and direction.
+ */
+export function buildPackedAtlasJSON(atlas: PackedAtlas, sheets: SpriteSheet[], name: string): PackedAtlasJSON {
+  const animations: Record<string, string[]> = {};
+  atlas.frames.forEach(f => {
+    (animations[`${f.clip}/${f.direction}`] ??= []).push(f.name);
+  });
+
+  return {
+    textures: atlas.pages.map((page, pi) => ({
+      image: packedPageName(name, pi),
+      format: "RGBA8888",
+      size: { w: page.width, h: page.height },
+      scale: 1,
+      frames: atlas.frames.filter(f => f.page === pi).map(f => ({
+        filename: f.name,
+        rotated: false,
+        trimmed: f.sourceRect.w !== f.sourceSize.w || f.sourceRect.h !== f.sourceSize.h,
+        sourceSize: f.sourceSize,
+        spriteSourceSize: f.sourceRect,
+        frame: f.frame,
+        pivot: f.pivot,
+        duration: f.durationMs,
+      })),
+    })),
+    animations,
+    meta: {
+      app: "animation-3",
+      version: "1.0",
+      clips: sheets.map(s => ({
+        name: s.clipName,
+        frameCount: s.frameCount,
+        frameDuration: s.frameDuration,
+        directions: s.dirs.map(d => d.label),
+        ...(s.dirs.some(d => d.mirrorOf !== undefined) ? { mirrors: sheetMirrors(s) } : {}),
+        ...(s.rootMotion ? { rootMotion: s.rootMotion } : {}),
+      })),
+      duplicates: Object.fromEntries(atlas.frames.flatMap(f => (f.duplicateOf ? [[f.name, f.duplicateOf]] : []))),
+    },
+  };
+}
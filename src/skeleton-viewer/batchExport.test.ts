@@ -0,0 +1,33 @@
+import { describe, expect, test } from "bun:test";
+import { parseBatchJob } from "./batchExport";
+
+describe("parseBatchJob", () => {
+  test("maps items to asset sources, with null clips meaning all clips", () => {
+    const items = parseBatchJob(JSON.stringify({
+      items: [{ file: "Walking.fbx" }, { file: "Hero.fbx", clips: ["Attack", 2] }],
+    }));
+    expect(items).toEqual([
+      { source: { kind: "asset", name: "Walking.fbx" }, clips: null },
+      { source: { kind: "asset", name: "Hero.fbx" }, clips: ["Attack", "2"] },
+    ]);
+  });
+
+  test("accepts an empty job", () => {
+    expect(parseBatchJob('{ "items": [] }')).toEqual([]);
+  });
+
+  test("rejects a job without an items array", () => {
+    expect(() => parseBatchJob("{}")).toThrow('Job file needs an "items" array');
+    expect(() => parseBatchJob('{ "items": { "file": "a.fbx" } }')).toThrow('Job file needs an "items" array');
+  });
+
+  test("names the item missing its file", () => {
+    expect(() => parseBatchJob('{ "items": [{ "file": "a.fbx" }, { "clips": [] }] }'))
+      .toThrow('items[1] needs a "file" name');
+    expect(() => parseBatchJob('{ "items": [{ "file": "" }] }')).toThrow('items[0] needs a "file" name');
+  });
+
+  test("surfaces invalid JSON", () => {
+    expect(() => parseBatchJob("{ items: [")).toThrow(SyntaxError);
+  });
+});
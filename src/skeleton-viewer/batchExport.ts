@@ -0,0 +1,306 @@
+import * as THREE from "three";
+import {
+  buildCharacter,
+  characterExportName,
+  exportName,
+  inPlaceClip,
+  loadSource,
+  sourceName,
+  sourceStem,
+  type Character,
+  type CharacterSource,
+} from "./character";
+import { attachAccessories, buildAccessories, type AccessoryDef } from "./accessories";
+import { computeClipBounds } from "./projection";
+import {
+  packedArtifacts,
+  renderClipSheets,
+  renderSpritesheet,
+  sheetArtifacts,
+  type SpriteSheet,
+  type SpriteTarget,
+} from "./spriteExport";
+import {
+  encodePositionMaps,
+  encodePositionMapSequence,
+  generatePositionMaps,
+  generatePositionMapSequence,
+  type PositionMapFormat,
+  type PositionMapResult,
+  type PositionMapSequence,
+  type PositionMapViewConfig,
+} from "./limbPositionMap";
+import { jsonBlob, saveExport, type ExportArtifact, type ExportResult } from "./exportSink";
+import type { BoneStyle } from "./boneConfig";
+import type { SpriteSettings } from "./spriteSettings";
+
+/** One file of a batch: every clip in it, or only the named ones. */
+export interface BatchItem {
+  source: CharacterSource;
+  clips: string[] | null; // null = all clips
+}
+
+/**
+ * Job file: `{ "items": [{ "file": "Walking.fbx", "clips": ["Take 001"] }, …] }`.
+ * Files are names in the server's assets directory; omit `clips` for all.
+ */
+export function parseBatchJob(text: string): BatchItem[] {
+  const json = JSON.parse(text) as { items?: unknown };
+  if (!Array.isArray(json.items)) throw new Error("Job file needs an \"items\" array");
+  return json.items.map((raw, i) => {
+    const item = raw as { file?: unknown; clips?: unknown };
+    if (typeof item.file !== "string" || !item.file) throw new Error(`items[${i}] needs a "file" name`);
+    const clips = Array.isArray(item.clips) ? item.clips.map(String) : null;
+    return { source: { kind: "asset", name: item.file }, clips };
+  });
+}
+
+/** Viewer state every batch item is exported with. */
+export interface BatchOptions {
+  sprite: SpriteSettings;
+  boneStyle: BoneStyle;
+  accessories: AccessoryDef[];
+  /** Enabled accessory ids for a source file name, as toggled in the viewer. */
+  accessoriesFor: (sourceName: string) => string[];
+  positionMaps: { format: PositionMapFormat; sequence: boolean; views: PositionMapViewConfig } | null;
+}
+
+export type BatchStatus = "pending" | "running" | "done" | "error";
+
+export interface BatchProgress {
+  label: string; // "Walking.fbx" or "Walking.fbx · Take 001" once clips are known
+  status: BatchStatus;
+  error?: string;
+}
+
+/** Everything the batch needs from the live viewer. */
+export interface BatchContext {
+  scene: THREE.Scene;
+  renderer: THREE.WebGLRenderer;
+  /** Hidden while a batch character renders, so it never shows in the sheets. */
+  liveRoot: THREE.Object3D | null;
+  onProgress: (items: BatchProgress[]) => void;
+  signal?: AbortSignal;
+}
+
+interface BatchEntry {
+  file: string;
+  clip: string | null;
+  name?: string;
+  status: "done" | "error" | "skipped";
+  error?: string;
+  files: string[];
+}
+
+function disposeCharacter(character: Character): void {
+  character.root.removeFromParent();
+  character.root.traverse(obj => {
+    if (obj instanceof THREE.Mesh) obj.geometry.dispose();
+  });
+}
+
+/**
+ * Exports one clip of an already-loaded batch character. Rendering is
+ * synchronous, so the character is only ever in the live scene — and the
+ * live character only ever hidden — between two frames of the viewer.
+ */
+async function exportClip(
+  character: Character,
+  source: CharacterSource,
+  sourceClip: THREE.AnimationClip,
+  options: BatchOptions,
+  ctx: BatchContext,
+): Promise<{ name: string; artifacts: ExportArtifact[] }> {
+  const clip = inPlaceClip(sourceClip);
+  const mixer = new THREE.AnimationMixer(character.root);
+  mixer.clipAction(clip).play();
+  const name = exportName(source, character, clip);
+
+  const liveVisible = ctx.liveRoot?.visible ?? false;
+  if (ctx.liveRoot) ctx.liveRoot.visible = false;
+  ctx.scene.add(character.root);
+  let sheet: SpriteSheet;
+  let positionMaps: PositionMapResult | PositionMapSequence | null = null;
+  try {
+    mixer.update(0);
+    const bounds = computeClipBounds(character.root, mixer, clip);
+    sheet = renderSpritesheet({
+      scene: ctx.scene,
+      root: character.root,
+      mixer,
+      clip,
+      sourceClip,
+      limbs: character.limbs,
+      bounds,
+      name,
+      character: sourceStem(source),
+    }, options.sprite);
+
+    const pm = options.positionMaps;
+    if (pm) {
+      positionMaps = pm.sequence
+        ? generatePositionMapSequence(ctx.renderer, character.limbs, mixer, clip, options.sprite.frameCount, 64, pm.views)
+        : generatePositionMaps(ctx.renderer, character.limbs, 64, pm.views);
+    }
+  } finally {
+    character.root.removeFromParent();
+    if (ctx.liveRoot) ctx.liveRoot.visible = liveVisible;
+    mixer.stopAllAction();
+    mixer.uncacheRoot(character.root);
+  }
+
+  // Encoding is async; the renders above are already off the live scene
+  const artifacts = await sheetArtifacts(sheet, options.sprite);
+  const pm = options.positionMaps;
+  if (pm && positionMaps) {
+    artifacts.push(...("frames" in positionMaps
+      ? await encodePositionMapSequence(positionMaps, pm.format, name)
+      : await encodePositionMaps(positionMaps, pm.format, name)));
+  }
+  return { name, artifacts };
+}
+
+/**
+ * Packs every exported clip of a file into one atlas (`packing.allClips`).
+ * Like exportClip, all rendering happens before the first await.
+ */
+async function exportPackedClips(
+  character: Character,
+  source: CharacterSource,
+  sourceClips: THREE.AnimationClip[],
+  options: BatchOptions,
+  ctx: BatchContext,
+): Promise<{ name: string; artifacts: ExportArtifact[] }> {
+  const targets: SpriteTarget[] = sourceClips.map(sourceClip => {
+    const clip = inPlaceClip(sourceClip);
+    const mixer = new THREE.AnimationMixer(character.root);
+    mixer.clipAction(clip).play();
+    return {
+      scene: ctx.scene,
+      root: character.root,
+      mixer,
+      clip,
+      sourceClip,
+      limbs: character.limbs,
+      bounds: computeClipBounds(character.root, mixer, clip),
+      name: exportName(source, character, clip),
+      character: sourceStem(source),
+    };
+  });
+  const name = `${characterExportName(source)}-clips`;
+
+  const liveVisible = ctx.liveRoot?.visible ?? false;
+  if (ctx.liveRoot) ctx.liveRoot.visible = false;
+  ctx.scene.add(character.root);
+  let sheets: SpriteSheet[];
+  try {
+    sheets = renderClipSheets(targets, options.sprite);
+  } finally {
+    character.root.removeFromParent();
+    if (ctx.liveRoot) ctx.liveRoot.visible = liveVisible;
+    targets.forEach(t => {
+      t.mixer.stopAllAction();
+      t.mixer.uncacheRoot(character.root);
+    });
+  }
+  return { name, artifacts: await packedArtifacts(sheets, options.sprite, name) };
+}
+
+/**
+ * Loads each item in turn, exports every selected clip with the viewer's
+ * settings and saves the lot as one export with a combined `batch.json`.
+ * A failing file or clip is recorded and skipped; the rest still export.
+ */
+export async function runBatch(items: BatchItem[], options: BatchOptions, ctx: BatchContext): Promise<ExportResult> {
+  const progress: BatchProgress[] = items.map(item => ({ label: sourceName(item.source), status: "pending" }));
+  const report = () => ctx.onProgress(progress.map(p => ({ ...p })));
+  const entries: BatchEntry[] = [];
+  const artifacts: ExportArtifact[] = [];
+  const usedNames = new Set<string>();
+  report();
+
+  for (let i = 0; i < items.length; i++) {
+    const item = items[i]!;
+    const file = sourceName(item.source);
+    if (ctx.signal?.aborted) {
+      entries.push({ file, clip: null, status: "skipped", files: [] });
+      continue;
+    }
+    progress[i]!.status = "running";
+    report();
+
+    let character: Character | null = null;
+    const errors: string[] = [];
+    try {
+      character = buildCharacter(await loadSource(item.source), options.boneStyle);
+      const built = await buildAccessories(options.accessories, options.accessoriesFor(file));
+      attachAccessories(character.bones, character.root, built);
+
+      const clips = item.clips
+        ? item.clips.map(name => {
+          const clip = character!.clips.find(c => c.name === name);
+          if (!clip) errors.push(`no clip "${name}"`);
+          return clip;
+        }).filter((c): c is THREE.AnimationClip => !!c)
+        : character.clips;
+      if (character.clips.length === 0) errors.push("no animation clips");
+      errors.forEach(error => entries.push({ file, clip: null, status: "error", error, files: [] }));
+
+      for (const clip of clips) {
+        if (ctx.signal?.aborted) break;
+        progress[i]!.label = `${file} · ${clip.name}`;
+        report();
+        try {
+          const result = await exportClip(character, item.source, clip, options, ctx);
+          if (usedNames.has(result.name)) throw new Error(`duplicate export name "${result.name}"`);
+          usedNames.add(result.name);
+          artifacts.push(...result.artifacts);
+          entries.push({ file, clip: clip.name, name: result.name, status: "done", files: result.artifacts.map(a => a.name) });
+        } catch (err) {
+          const error = err instanceof Error ? err.message : String(err);
+          errors.push(`${clip.name}: ${error}`);
+          entries.push({ file, clip: clip.name, status: "error", error, files: [] });
+        }
+      }
+
+      const { packing } = options.sprite;
+      if (packing.enabled && packing.allClips && clips.length > 0 && !ctx.signal?.aborted) {
+        try {
+          const result = await exportPackedClips(character, item.source, clips, options, ctx);
+          if (usedNames.has(result.name)) throw new Error(`duplicate export name "${result.name}"`);
+          usedNames.add(result.name);
+          artifacts.push(...result.artifacts);
+          entries.push({ file, clip: null, name: result.name, status: "done", files: result.artifacts.map(a => a.name) });
+        } catch (err) {
+          const error = err instanceof Error ? err.message : String(err);
+          errors.push(`packed atlas: ${error}`);
+          entries.push({ file, clip: null, status: "error", error, files: [] });
+        }
+      }
+    } catch (err) {
+      const error = err instanceof Error ? err.message : String(err);
+      errors.push(error);
+      entries.push({ file, clip: null, status: "error", error, files: [] });
+    } finally {
+      if (character) disposeCharacter(character);
+    }
+
+    progress[i] = {
+      label: file,
+      status: errors.length ? "error" : "done",
+      ...(errors.length ? { error: errors.join("; ") } : {}),
+    };
+    report();
+  }
+
+  const stems = new Set(items.map(item => sourceStem(item.source)));
+  const manifest = {
+    frameCount: options.sprite.frameCount,
+    frameSize: options.sprite.frameSize,
+    positionMaps: options.positionMaps ? { format: options.positionMaps.format, sequence: options.positionMaps.sequence } : null,
+    entries,
+  };
+  artifacts.push({ name: "batch.json", data: jsonBlob(manifest) });
+  const character = stems.size === 1 ? [...stems][0]! : "batch";
+  return saveExport({ character, clip: `${entries.filter(e => e.status === "done").length}-clips`, kind: "batch" }, artifacts);
+}
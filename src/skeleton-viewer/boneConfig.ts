@@ -30,6 +30,9 @@ export const NO_CHILD_SEGMENTS = new Set([
   "LeftToeBase", "RightToeBase",
 ]);
 
+// Head sphere radius (metres); hats in accessories.ts are sized from it
+export const HEAD_RADIUS = 0.13;
+
 // Finger segment radius (metres) — thin regardless of which exact bones the FBX uses
 export const FINGER_RADIUS = 0.012;
 
@@ -40,3 +43,23 @@ export const SKIP = new Set([
 
 // Pattern that matches any finger / thumb bone by name (Mixamo naming convention)
 export const FINGER_PATTERN = /thumb|index|middle|ring|pinky/i;
+
+// Everything the bone style editor can change. The constants above are the
+// defaults; addVisuals reads from a BoneStyle so edits apply without a reload.
+export interface BoneStyle {
+  colors: Record<string, number>;
+  radii: Record<string, number>; // metres
+  jointColor: number;
+  jointRadius: number;           // metres
+  fingerRadius: number;          // metres
+  autoTorso: boolean;            // size Hips/Spine from the shoulder span instead of RADII
+}
+
+export const DEFAULT_BONE_STYLE: BoneStyle = {
+  colors: COLORS,
+  radii: RADII,
+  jointColor: JOINT_COLOR,
+  jointRadius: JOINT_RADIUS,
+  fingerRadius: FINGER_RADIUS,
+  autoTorso: true,
+};
@@ -0,0 +1,83 @@
+import { DEFAULT_BONE_STYLE, type BoneStyle } from "./boneConfig";
+
+// Preset files store colors as "#rrggbb" so they stay hand-editable.
+interface BoneStyleJSON {
+  colors: Record<string, string>;
+  radii: Record<string, number>;
+  jointColor: string;
+  jointRadius: number;
+  fingerRadius: number;
+  autoTorso: boolean;
+}
+
+const toHex = (c: number) => `#${c.toString(16).padStart(6, "0")}`;
+
+function fromHex(value: unknown): number | null {
+  if (typeof value !== "string" || !/^#?[0-9a-f]{6}$/i.test(value)) return null;
+  return parseInt(value.replace("#", ""), 16);
+}
+
+function positive(value: unknown): number | null {
+  return typeof value === "number" && Number.isFinite(value) && value > 0 ? value : null;
+}
+
+export function boneStyleToJSON(style: BoneStyle): string {
+  const json: BoneStyleJSON = {
+    colors: Object.fromEntries(Object.entries(style.colors).map(([k, c]) => [k, toHex(c)])),
+    radii: style.radii,
+    jointColor: toHex(style.jointColor),
+    jointRadius: style.jointRadius,
+    fingerRadius: style.fingerRadius,
+    autoTorso: style.autoTorso,
+  };
+  return JSON.stringify(json, null, 2);
+}
+
+/**
+ * Parses a preset. Missing or invalid entries fall back to the defaults, so
+ * presets written before a bone was added still load.
+ */
+export function parseBoneStyle(text: string): BoneStyle {
+  const json = JSON.parse(text) as Partial<BoneStyleJSON>;
+  const colors = { ...DEFAULT_BONE_STYLE.colors };
+  Object.entries(json.colors ?? {}).forEach(([k, v]) => {
+    const c = fromHex(v);
+    if (c !== null) colors[k] = c;
+  });
+  const radii = { ...DEFAULT_BONE_STYLE.radii };
+  Object.entries(json.radii ?? {}).forEach(([k, v]) => {
+    const r = positive(v);
+    if (r !== null) radii[k] = r;
+  });
+  return {
+    colors,
+    radii,
+    jointColor: fromHex(json.jointColor) ?? DEFAULT_BONE_STYLE.jointColor,
+    jointRadius: positive(json.jointRadius) ?? DEFAULT_BONE_STYLE.jointRadius,
+    fingerRadius: positive(json.fingerRadius) ?? DEFAULT_BONE_STYLE.fingerRadius,
+    autoTorso: typeof json.autoTorso === "boolean" ? json.autoTorso : DEFAULT_BONE_STYLE.autoTorso,
+  };
+}
+
+/** Preset names (without .json) saved in the server's presets directory. */
+export async function listPresets(): Promise<string[]> {
+  const res = await fetch("/api/presets");
+  if (!res.ok) throw new Error(`GET /api/presets failed: ${res.status}`);
+  const { presets } = (await res.json()) as { presets: string[] };
+  return presets;
+}
+
+export async function loadPreset(name: string): Promise<BoneStyle> {
+  const res = await fetch(`/api/presets/${encodeURIComponent(name)}`);
+  if (!res.ok) throw new Error(`GET /api/presets/${name} failed: ${res.status}`);
+  return parseBoneStyle(await res.text());
+}
+
+export async function savePreset(name: string, style: BoneStyle): Promise<void> {
+  const res = await fetch(`/api/presets/${encodeURIComponent(name)}`, {
+    method: "PUT",
+    headers: { "Content-Type": "application/json" },
+    body: boneStyleToJSON(style),
+  });
+  if (!res.ok) throw new Error(`PUT /api/presets/${name} failed: ${res.status}`);
+}
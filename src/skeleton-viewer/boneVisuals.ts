@@ -1,27 +1,30 @@
 import * as THREE from "three";
 import {
-  COLORS,
-  RADII,
-  JOINT_COLOR,
-  JOINT_RADIUS,
-  FINGER_RADIUS,
   NO_CHILD_SEGMENTS,
   SKIP,
   FINGER_PATTERN,
+  HEAD_RADIUS,
+  DEFAULT_BONE_STYLE,
+  type BoneStyle,
 } from "./boneConfig";
-import { createWizardHat } from "./accessories";
 
 // Mixamo FBX is authored in centimetres; the FBX root group is scaled by 0.01
 // to convert to metres in the scene. That scale sits on the root, so every bone's
 // LOCAL position (child.position) is still in centimetres. Geometry dimensions
 // (sphere radius, capsule radius) live in the same local space — so we must
-// convert metre-based config values into centimetres before creating geometry.
-const FBX_TO_LOCAL = 100; // 1 / 0.01
+// convert metre-based config values into local units before creating geometry.
+// Other sources (BVH in inches, GLB in metres) get their own root scale, so the
+// factor is read from the bone's world scale: 100 for FBX, 1 / unit in general.
+function localPerMetre(bone: THREE.Object3D): number {
+  return 1 / bone.getWorldScale(new THREE.Vector3()).x;
+}
 
 // Mixamo FBX exports use either "mixamorig:Hips" or "mixamorigHips" depending
-// on the export settings. Strip either form so all downstream lookups just use "Hips".
+// on the export settings (sometimes numbered: "mixamorig1:"). Other tools add
+// "Namespace:" or "Armature|" prefixes. Strip them so lookups just use "Hips";
+// rig profiles (rigProfiles.ts) rename everything else to these names at load.
 export function strip(name: string): string {
-  return name.replace(/^mixamorig:?/, "");
+  return name.replace(/^mixamorig\d*:?/, "").replace(/^[^:|]*[:|]/, "");
 }
 
 export function isBone(obj: THREE.Object3D): boolean {
@@ -32,10 +35,13 @@ export function isBone(obj: THREE.Object3D): boolean {
   );
 }
 
-const JOINT_MAT = new THREE.MeshPhongMaterial({
-  color: JOINT_COLOR,
-  shininess: 80,
-});
+function jointMat(color: number): THREE.MeshPhongMaterial {
+  return new THREE.MeshPhongMaterial({
+    color,
+    shininess: 80,
+  });
+}
+
 const SKIN_MAT = new THREE.MeshPhongMaterial({
   color: 0xffcca0,
   flatShading: true,
@@ -62,27 +68,34 @@ function orientToward(localVec: THREE.Vector3): THREE.Quaternion {
   return new THREE.Quaternion().setFromUnitVectors(up, dir);
 }
 
-const TORSO_BONES = new Set(["Hips", "Spine", "Spine1", "Spine2"]);
+export const TORSO_BONES = new Set(["Hips", "Spine", "Spine1", "Spine2"]);
 
 // Attach visual geometry to a single bone as child objects so they animate with it.
 // Must be called AFTER collecting all bones so newly added meshes are never
 // mistaken for bone children when filtering bone.children.
-// torsoRadius: if provided (in metres), overrides RADII for Hips/Spine bones.
-export function addVisuals(bone: THREE.Object3D, torsoRadius?: number): void {
+// torsoRadius: if provided (in metres) and style.autoTorso is set, overrides the
+// style radii for Hips/Spine bones.
+export function addVisuals(
+  bone: THREE.Object3D,
+  torsoRadius?: number,
+  style: BoneStyle = DEFAULT_BONE_STYLE,
+): void {
   const name = strip(bone.name);
-  if (SKIP.has(name)) return;
+  if (SKIP.has(name) || bone.userData.rigIgnored) return;
+  const toLocal = localPerMetre(bone);
+  const minLength = 0.005 * toLocal; // skip degenerate tiny bones (< 0.5 cm)
 
   // Finger bones — thin capsules, no joint dot, matched by name pattern so we
   // don't rely on exact bone name enumeration across different Mixamo exports.
   if (FINGER_PATTERN.test(name)) {
-    const r = FINGER_RADIUS * FBX_TO_LOCAL;
-    const mat = segmentMat(COLORS["LeftArm"] ?? 0x22aaff);
+    const r = style.fingerRadius * toLocal;
+    const mat = segmentMat(style.colors["LeftArm"] ?? 0x22aaff);
     bone.children
       .filter((c) => isBone(c) && !SKIP.has(strip(c.name)))
       .forEach((child) => {
         const vec = child.position.clone();
         const length = vec.length();
-        if (length < 0.5) return;
+        if (length < minLength) return;
         const cylH = Math.max(0, length - 2 * r);
         const cap = new THREE.Mesh(
           new THREE.CapsuleGeometry(r, cylH, 3, 6),
@@ -95,40 +108,40 @@ export function addVisuals(bone: THREE.Object3D, torsoRadius?: number): void {
     return;
   }
 
-  // Joint dot — radius in metres, converted to FBX local space (cm)
-  const jointR = JOINT_RADIUS * FBX_TO_LOCAL;
-  const jointDot = new THREE.Mesh(new THREE.SphereGeometry(jointR, 8, 8), JOINT_MAT);
+  // Joint dot — radius in metres, converted to bone local space (cm for FBX)
+  const jointR = style.jointRadius * toLocal;
+  const jointDot = new THREE.Mesh(new THREE.SphereGeometry(jointR, 8, 8), jointMat(style.jointColor));
   jointDot.userData.isJoint = true; // excluded from position maps (overlaps adjacent limbs)
   bone.add(jointDot);
 
   if (name === "Head") {
-    const r = 0.13 * FBX_TO_LOCAL;
+    const r = HEAD_RADIUS * toLocal;
     const head = new THREE.Mesh(new THREE.SphereGeometry(r, 14, 14), SKIN_MAT);
     head.position.set(0, r, 0);
-    bone.add(head);
-    bone.add(createWizardHat(r));
+    bone.add(head); // hats come from the accessory registry (accessories.ts)
     return;
   }
 
   if (name === "LeftHand" || name === "RightHand") {
-    const r = 0.048 * FBX_TO_LOCAL;
+    const r = 0.048 * toLocal;
     bone.add(new THREE.Mesh(new THREE.SphereGeometry(r, 8, 8), SKIN_MAT));
     return;
   }
 
   if (NO_CHILD_SEGMENTS.has(name)) return;
 
-  const color = COLORS[name] ?? 0x44aaff;
-  const radiusM = TORSO_BONES.has(name) && torsoRadius != null ? torsoRadius : (RADII[name] ?? 0.065);
-  const radius = radiusM * FBX_TO_LOCAL; // metres → cm
+  const color = style.colors[name] ?? 0x44aaff;
+  const autoTorso = style.autoTorso && TORSO_BONES.has(name) && torsoRadius != null;
+  const radiusM = autoTorso ? torsoRadius : (style.radii[name] ?? 0.065);
+  const radius = radiusM * toLocal; // metres → local units
   const mat = segmentMat(color);
 
   bone.children
     .filter((c) => isBone(c) && !SKIP.has(strip(c.name)))
     .forEach((child) => {
-      const vec = child.position.clone(); // already in cm
+      const vec = child.position.clone(); // already in local units
       const length = vec.length();
-      if (length < 0.5) return; // skip degenerate tiny bones (< 0.5 cm)
+      if (length < minLength) return;
 
       // CapsuleGeometry(radius, cylinderHeight) — total = cylinderHeight + 2*radius
       const cylH = Math.max(0, length - 2 * radius);
@@ -141,3 +154,20 @@ export function addVisuals(bone: THREE.Object3D, torsoRadius?: number): void {
       bone.add(cap);
     });
 }
+
+// Removes everything addVisuals attached to `bone` so the visuals can be
+// rebuilt with a different style. Accessories are managed separately.
+export function removeVisuals(bone: THREE.Object3D): void {
+  bone.children
+    .filter((c) => !isBone(c) && !c.userData.accessory)
+    .forEach((visual) => {
+      visual.removeFromParent();
+      visual.traverse((obj) => {
+        if (!(obj instanceof THREE.Mesh)) return;
+        obj.geometry.dispose();
+        // jointMat/segmentMat materials are made per bone; SKIN_MAT is shared
+        const mats: THREE.Material[] = Array.isArray(obj.material) ? obj.material : [obj.material];
+        mats.forEach((m) => { if (m !== SKIN_MAT) m.dispose(); });
+      });
+    });
+}
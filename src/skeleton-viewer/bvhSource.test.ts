@@ -0,0 +1,124 @@
+import { describe, expect, test } from "bun:test";
+import * as THREE from "three";
+import { bvhUnitScale, parseBVH } from "./bvhSource";
+import { buildCharacter } from "./character";
+
+// Hips → Spine → Head → end site, spanning `height` units from hips to head top
+function bvh(height: number): string {
+  const leg = height * 0.5;
+  const step = height * 0.5;
+  return `HIERARCHY
+ROOT Hips
+{
+  OFFSET 0 ${leg} 0
+  CHANNELS 6 Xposition Yposition Zposition Zrotation Xrotation Yrotation
+  JOINT Spine
+  {
+    OFFSET 0 ${step} 0
+    CHANNELS 3 Zrotation Xrotation Yrotation
+    JOINT Head
+    {
+      OFFSET 0 ${step * 0.6} 0
+      CHANNELS 3 Zrotation Xrotation Yrotation
+      End Site
+      {
+        OFFSET 0 ${step * 0.4} 0
+      }
+    }
+  }
+}
+MOTION
+Frames: 2
+Frame Time: 0.0333333
+0 ${leg} 0 0 0 0 0 0 0 0 0 0
+1 ${leg} 0 0 0 0 0 10 0 0 0 0
+`;
+}
+
+// Hips with a toe and a hand branch, each ending in an end site
+const LIMBS = `HIERARCHY
+ROOT Hips
+{
+  OFFSET 0 90 0
+  CHANNELS 6 Xposition Yposition Zposition Zrotation Xrotation Yrotation
+  JOINT LeftToeBase
+  {
+    OFFSET 10 -85 10
+    CHANNELS 3 Zrotation Xrotation Yrotation
+    End Site
+    {
+      OFFSET 0 0 8
+    }
+  }
+  JOINT LeftHand
+  {
+    OFFSET 30 50 0
+    CHANNELS 3 Zrotation Xrotation Yrotation
+    End Site
+    {
+      OFFSET 10 0 0
+    }
+  }
+}
+MOTION
+Frames: 1
+Frame Time: 0.0333333
+0 90 0 0 0 0 0 0 0 0 0 0
+`;
+
+function boneNames(root: THREE.Object3D): string[] {
+  const names: string[] = [];
+  root.traverse(obj => { if (obj instanceof THREE.Bone) names.push(obj.name); });
+  return names;
+}
+
+describe("parseBVH", () => {
+  test("builds the bone hierarchy and names the head tip like Mixamo's", () => {
+    const { root } = parseBVH(bvh(170), "Walk");
+    expect(boneNames(root)).toEqual(["Hips", "Spine", "Head", "HeadTop_End"]);
+  });
+
+  test("names toe tips like Mixamo's and other end sites after their joint", () => {
+    const { root } = parseBVH(LIMBS, "Walk");
+    expect(boneNames(root)).toEqual(["Hips", "LeftToeBase", "LeftToe_End", "LeftHand", "LeftHand_End"]);
+  });
+
+  test("head and toe tips get no visuals", () => {
+    const { bones } = buildCharacter(parseBVH(LIMBS, "Walk"));
+    const meshes = (name: string) => bones.find(b => b.name === name)!.children.filter(c => c instanceof THREE.Mesh);
+    expect(meshes("LeftToe_End")).toHaveLength(0);
+    // ToeBase keeps its joint dot but draws no capsule toward the skipped tip
+    expect(meshes("LeftToeBase").map(m => m.userData.isJoint)).toEqual([true]);
+    expect(meshes("LeftHand_End").length).toBeGreaterThan(0);
+  });
+
+  test("attaches the motion as the root's only clip, named as asked", () => {
+    const { root } = parseBVH(bvh(170), "Walk");
+    expect(root.animations).toHaveLength(1);
+    const clip = root.animations[0]!;
+    expect(clip.name).toBe("Walk");
+    expect(clip.duration).toBeCloseTo(0.0333333, 5);
+    expect(clip.tracks.some(t => t.name === "Hips.position")).toBe(true);
+  });
+
+  test.each([
+    [1.7, 1],        // metres
+    [170, 0.01],     // centimetres
+    [1700, 0.001],   // millimetres
+    [67, 0.0254],    // inches
+  ])("detects units from a %p-unit rest height", (height, metres) => {
+    expect(parseBVH(bvh(height), "clip").unitScale).toBe(metres);
+  });
+
+  test("scales rigs in unknown units to a default human height", () => {
+    // 20 units tall: too short for m/in, too tall for cm/mm to be human
+    const { unitScale } = parseBVH(bvh(20), "clip");
+    expect(unitScale * 20).toBeCloseTo(1.75, 5);
+  });
+});
+
+describe("bvhUnitScale", () => {
+  test("returns 1 for a skeleton without height", () => {
+    expect(bvhUnitScale(new THREE.Group())).toBe(1);
+  });
+});
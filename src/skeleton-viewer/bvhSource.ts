@@ -0,0 +1,65 @@
+import * as THREE from "three";
+import { BVHLoader } from "three/examples/jsm/loaders/BVHLoader.js";
+
+// BVH has no unit field. These are the units mocap libraries actually use;
+// the one that makes the rest skeleton a plausible human height wins.
+const UNITS: { name: string; metres: number }[] = [
+  { name: "m", metres: 1 },
+  { name: "cm", metres: 0.01 },
+  { name: "mm", metres: 0.001 },
+  { name: "in", metres: 0.0254 },
+];
+
+const MIN_HEIGHT = 1.2; // metres
+const MAX_HEIGHT = 2.2;
+const FALLBACK_HEIGHT = 1.75;
+
+/**
+ * Metres per BVH unit, from the rest-pose height (lowest to highest joint).
+ * Rigs in odd units that no standard unit explains are scaled to FALLBACK_HEIGHT.
+ */
+export function bvhUnitScale(root: THREE.Object3D): number {
+  root.updateMatrixWorld(true);
+  const p = new THREE.Vector3();
+  let minY = Infinity, maxY = -Infinity;
+  root.traverse(obj => {
+    obj.getWorldPosition(p);
+    minY = Math.min(minY, p.y);
+    maxY = Math.max(maxY, p.y);
+  });
+  const height = maxY - minY;
+  if (!(height > 0)) return 1;
+
+  const unit = UNITS.find(u => height * u.metres >= MIN_HEIGHT && height * u.metres <= MAX_HEIGHT);
+  return unit ? unit.metres : FALLBACK_HEIGHT / height;
+}
+
+// Head and toe tips get Mixamo's names, which the visuals skip (boneConfig SKIP)
+const END_SITES: Record<string, string> = {
+  Head: "HeadTop_End",
+  LeftToeBase: "LeftToe_End",
+  RightToeBase: "RightToe_End",
+};
+
+/**
+ * Parses a BVH file into the same shape FBXLoader returns: a Group holding the
+ * bone hierarchy, with the motion as its only animation (named `clipName`).
+ * Returns the unit scale to apply to the root.
+ */
+export function parseBVH(text: string, clipName: string): { root: THREE.Group; unitScale: number } {
+  const { skeleton, clip } = new BVHLoader().parse(text);
+  const rootBone = skeleton.bones[0]!;
+
+  // End sites all arrive as "ENDSITE"; name them after their joint like Mixamo's *_End bones
+  skeleton.bones.forEach(bone => {
+    if (bone.name !== "ENDSITE") return;
+    const parent = bone.parent?.name ?? "Root";
+    bone.name = END_SITES[parent] ?? `${parent}_End`;
+  });
+
+  clip.name = clipName;
+  const root = new THREE.Group();
+  root.add(rootBone);
+  root.animations = [clip];
+  return { root, unitScale: bvhUnitScale(rootBone) };
+}
@@ -0,0 +1,205 @@
+import * as THREE from "three";
+import { FBXLoader } from "three/examples/jsm/loaders/FBXLoader.js";
+import { GLTFLoader } from "three/examples/jsm/loaders/GLTFLoader.js";
+import { isBone, addVisuals, removeVisuals, strip } from "./boneVisuals";
+import { DEFAULT_BONE_STYLE, type BoneStyle } from "./boneConfig";
+import { applyRig, detectRig, type RigMapping } from "./rigProfiles";
+import { parseBVH } from "./bvhSource";
+
+/** Where an animation file comes from: a server asset or a user-supplied file. */
+export type CharacterSource =
+  | { kind: "asset"; name: string }
+  | { kind: "file"; file: File };
+
+export interface Character {
+  root: THREE.Group;
+  bones: THREE.Object3D[];
+  /** Limb meshes by stripped bone name (joint dots excluded). */
+  limbs: Map<string, THREE.Mesh[]>;
+  /** Every clip in the file with tracks renamed to canonical bones (Hips translation still present). */
+  clips: THREE.AnimationClip[];
+  /** How the file's bone names map to the canonical (Mixamo) names. */
+  rig: RigMapping;
+  /** Half the bind-pose shoulder span (metres), used for the torso capsules. */
+  torsoRadius?: number;
+}
+
+export function sourceName(source: CharacterSource): string {
+  return source.kind === "asset" ? source.name : source.file.name;
+}
+
+/** File name without its extension, e.g. "Walking" for "Walking.fbx". */
+export function sourceStem(source: CharacterSource): string {
+  return sourceName(source).replace(/\.[^.]+$/, "");
+}
+
+/** File types the viewer can load as an animation source. */
+export const SOURCE_PATTERN = /\.(fbx|bvh|glb)$/i;
+
+/** A parsed animation file before it becomes a Character. */
+export interface LoadedSource {
+  root: THREE.Group;  // bone hierarchy, clips in root.animations
+  unitScale: number;  // metres per file unit, applied as the root scale
+}
+
+/** Lists the FBX/BVH/GLB files the server exposes from its assets directory. */
+export async function listAssets(): Promise<string[]> {
+  const res = await fetch("/api/assets");
+  if (!res.ok) throw new Error(`GET /api/assets failed: ${res.status}`);
+  const { files } = (await res.json()) as { files: string[] };
+  return files;
+}
+
+async function sourceData(source: CharacterSource): Promise<ArrayBuffer> {
+  if (source.kind === "file") return source.file.arrayBuffer();
+  const res = await fetch(`/assets/${encodeURIComponent(source.name)}`);
+  if (!res.ok) throw new Error(`GET /assets/${source.name} failed: ${res.status}`);
+  return res.arrayBuffer();
+}
+
+export async function loadSource(source: CharacterSource): Promise<LoadedSource> {
+  const name = sourceName(source);
+  const data = await sourceData(source);
+  if (/\.bvh$/i.test(name)) {
+    return parseBVH(new TextDecoder().decode(data), name.replace(/\.[^.]+$/, ""));
+  }
+  if (/\.glb$/i.test(name)) return parseGLB(data);
+  return { root: new FBXLoader().parse(data, ""), unitScale: 0.01 }; // Mixamo uses centimetres
+}
+
+// glTF is in metres. Only the skeleton and clips are used: the file's own
+// meshes are dropped so the capsule visuals replace them, as with FBX.
+async function parseGLB(data: ArrayBuffer): Promise<LoadedSource> {
+  const gltf = await new GLTFLoader().parseAsync(data, "");
+  const meshes: THREE.Object3D[] = [];
+  gltf.scene.traverse((obj) => { if (obj instanceof THREE.Mesh) meshes.push(obj); });
+  meshes.forEach((m) => m.removeFromParent());
+  gltf.scene.animations = gltf.animations;
+
+  // Armatures exported from centimetre rigs carry a 0.01 node scale, and
+  // Z-up ones a 90° X rotation. Fold both into the root so root motion
+  // (sampled from the Hips track) comes out in metres along the ground. Only
+  // the static, unmoved nodes directly under the scene are folded: below a
+  // translated node the transforms no longer commute.
+  let unitScale = 1;
+  const animated = new Set(gltf.animations.flatMap((c) => c.tracks.map((t) => THREE.PropertyBinding.parseTrackName(t.name).nodeName)));
+  let firstBone: THREE.Object3D | undefined;
+  gltf.scene.traverse((obj) => { if (!firstBone && isBone(obj)) firstBone = obj; });
+  const chain: THREE.Object3D[] = [];
+  for (let node = firstBone?.parent; node && node !== gltf.scene; node = node.parent) chain.unshift(node);
+  for (const node of chain) {
+    const s = node.scale;
+    const uniform = Math.abs(s.x - s.y) < 1e-6 && Math.abs(s.x - s.z) < 1e-6;
+    if (!uniform || node.position.lengthSq() >= 1e-12 || animated.has(node.name)) break;
+    unitScale *= s.x;
+    s.setScalar(1);
+    gltf.scene.quaternion.multiply(node.quaternion);
+    node.quaternion.identity();
+  }
+  return { root: gltf.scene, unitScale };
+}
+
+/**
+ * Converts a loaded file into the stylized capsule character: scales it to
+ * metres, maps its bones to canonical names (auto-detected unless `rig` is
+ * given), attaches bone visuals and collects the limb meshes.
+ */
+export function buildCharacter(
+  { root: fbx, unitScale }: LoadedSource,
+  style: BoneStyle = DEFAULT_BONE_STYLE,
+  rig?: RigMapping,
+): Character {
+  fbx.scale.setScalar(unitScale);
+  fbx.updateMatrixWorld(true);
+
+  // Collect bones before adding visuals so newly added meshes
+  // are never mistaken for bone children during addVisuals()
+  const bones: THREE.Object3D[] = [];
+  fbx.traverse((obj) => { if (isBone(obj)) bones.push(obj); });
+
+  const mapping = rig ?? detectRig(bones);
+  const clips = applyRig(bones, fbx.animations, mapping);
+  const torsoRadius = shoulderRadius(bones);
+
+  bones.forEach(b => addVisuals(b, torsoRadius, style));
+
+  return { root: fbx, bones, limbs: collectLimbs(bones), clips, rig: mapping, torsoRadius };
+}
+
+// Use LeftArm/RightArm (actual shoulder joints, not clavicle bases)
+// so torso capsule diameter equals the real shoulder span.
+function shoulderRadius(bones: THREE.Object3D[]): number | undefined {
+  const lArm = bones.find(b => strip(b.name) === "LeftArm");
+  const rArm = bones.find(b => strip(b.name) === "RightArm");
+  if (!lArm || !rArm) return undefined;
+  const lPos = new THREE.Vector3();
+  const rPos = new THREE.Vector3();
+  lArm.getWorldPosition(lPos);
+  rArm.getWorldPosition(rPos);
+  return lPos.distanceTo(rPos) / 2; // half shoulder span = capsule radius
+}
+
+/**
+ * Re-applies a (hand-corrected) rig mapping: renames bones and clip tracks and
+ * rebuilds the visuals, since colors and radii are looked up by canonical name.
+ */
+export function remapCharacter(character: Character, rig: RigMapping, style: BoneStyle): Character {
+  const clips = applyRig(character.bones, character.clips, rig);
+  character.root.updateMatrixWorld(true);
+  const next = { ...character, clips, rig, torsoRadius: shoulderRadius(character.bones) ?? character.torsoRadius };
+  return restyleCharacter(next, style);
+}
+
+/**
+ * Rebuilds the bone visuals with `style`. Root, bones and clips are kept, so
+ * the mixer and scene placement survive; the limb map is new.
+ */
+export function restyleCharacter(character: Character, style: BoneStyle): Character {
+  character.bones.forEach(b => {
+    removeVisuals(b);
+    addVisuals(b, character.torsoRadius, style);
+  });
+  return { ...character, limbs: collectLimbs(character.bones) };
+}
+
+// Collect limb meshes by bone name (after addVisuals so children are populated).
+// Exclude joint-dot spheres (isJoint) — they overlap adjacent limbs.
+function collectLimbs(bones: THREE.Object3D[]): Map<string, THREE.Mesh[]> {
+  const limbs = new Map<string, THREE.Mesh[]>();
+  bones.forEach(bone => {
+    const meshes = bone.children.filter(
+      c => c instanceof THREE.Mesh && !c.userData.isJoint,
+    ) as THREE.Mesh[];
+    if (meshes.length > 0) limbs.set(strip(bone.name), meshes);
+  });
+  return limbs;
+}
+
+export function isHipsTranslation(track: THREE.KeyframeTrack): boolean {
+  return track.name.toLowerCase().includes("hips") && track.name.endsWith(".position");
+}
+
+/** Returns a copy of `clip` without the Hips translation track — keeps the motion in-place. */
+export function inPlaceClip(clip: THREE.AnimationClip): THREE.AnimationClip {
+  const copy = clip.clone();
+  copy.tracks = copy.tracks.filter((t) => !isHipsTranslation(t));
+  return copy;
+}
+
+function slug(text: string): string {
+  return text.toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-+|-+$/g, "");
+}
+
+/** File-name stem for exports covering the whole character (e.g. "hero"). */
+export function characterExportName(source: CharacterSource): string {
+  return slug(sourceStem(source)) || "character";
+}
+
+/**
+ * File-name stem for exports: the source file's stem, plus the clip name
+ * when the file holds more than one clip (e.g. "hero-attack").
+ */
+export function exportName(source: CharacterSource, character: Character, clip: THREE.AnimationClip): string {
+  const stem = characterExportName(source);
+  return character.clips.length > 1 && clip.name ? `${stem}-${slug(clip.name)}` : stem;
+}
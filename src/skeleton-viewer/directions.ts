@@ -0,0 +1,106 @@
+import * as THREE from "three";
+
+export const LOOK_TARGET = new THREE.Vector3(0, 0.85, 0);
+
+// Angles are in DEGREES. Azimuth 0 looks at the character's front (camera on +Z),
+// 90 is its right side (camera on +X); elevation raises the camera above the horizon.
+export interface DirectionSetConfig {
+  count: number;        // evenly spaced directions around the character
+  startAngle: number;   // azimuth of the first direction
+  elevation: number;    // camera pitch, clamped to ±89 so lookAt() stays stable
+  distance: number;     // metres from LOOK_TARGET
+  angles?: number[];    // custom azimuths — overrides count/startAngle when non-empty
+  mirrors?: Record<number, number>; // azimuth → azimuth it is drawn as a horizontal flip of
+}
+
+export interface SpriteDir {
+  label: string;
+  angle: number; // azimuth, degrees in [0, 360)
+  pos: readonly [number, number, number];
+  mirrorOf?: number; // index of the rendered direction this one flips instead of rendering
+}
+
+export const DEFAULT_DIRECTION_SET: DirectionSetConfig = {
+  count: 4,
+  startAngle: 0,
+  elevation: 0,
+  distance: 3.2,
+};
+
+export const DIRECTION_COUNTS = [4, 8, 16] as const;
+
+const COMPASS_LABELS: Record<number, string> = {
+  0: "Front", 45: "Front-Right", 90: "Right", 135: "Back-Right",
+  180: "Back", 225: "Back-Left", 270: "Left", 315: "Front-Left",
+};
+
+function directionLabel(angle: number): string {
+  return COMPASS_LABELS[angle] ?? `${Number(angle.toFixed(1))}°`;
+}
+
+function wrapDegrees(a: number): number {
+  return ((a % 360) + 360) % 360;
+}
+
+export function directionAngles(config: DirectionSetConfig): number[] {
+  if (config.angles && config.angles.length > 0) return config.angles.map(wrapDegrees);
+  const count = Math.max(1, Math.floor(config.count));
+  return Array.from({ length: count }, (_, i) => wrapDegrees(config.startAngle + (i * 360) / count));
+}
+
+/**
+ * Index of the direction each angle mirrors, or -1. A mirror must point at
+ * another direction of the set that is itself rendered, so flips never chain.
+ */
+function mirrorSources(angles: number[], mirrors: Record<number, number> | undefined): number[] {
+  const wanted = angles.map(angle => {
+    const of = mirrors?.[angle];
+    return of === undefined ? -1 : angles.indexOf(wrapDegrees(of));
+  });
+  return wanted.map((src, i) => (src >= 0 && src !== i && wanted[src] === -1 ? src : -1));
+}
+
+/**
+ * Mirror pairs for a symmetric character: every direction on the left half
+ * (azimuth past 180°) flips its counterpart on the right, when the set has one.
+ */
+export function symmetricMirrors(config: DirectionSetConfig): Record<number, number> {
+  const angles = directionAngles(config);
+  const mirrors: Record<number, number> = {};
+  angles.forEach(angle => {
+    const twin = angles.find(a => Math.abs(a - wrapDegrees(360 - angle)) < 1e-6);
+    if (angle > 180 && twin !== undefined) mirrors[angle] = twin;
+  });
+  return mirrors;
+}
+
+/** Expands a direction-set config into one camera placement per direction. */
+export function buildSpriteDirs(config: DirectionSetConfig): SpriteDir[] {
+  const elev = THREE.MathUtils.degToRad(THREE.MathUtils.clamp(config.elevation, -89, 89));
+  const horiz = config.distance * Math.cos(elev);
+  const height = LOOK_TARGET.y + config.distance * Math.sin(elev);
+  const angles = directionAngles(config);
+  const sources = mirrorSources(angles, config.mirrors);
+
+  return angles.map((angle, i) => {
+    const az = THREE.MathUtils.degToRad(angle);
+    return {
+      label: directionLabel(angle),
+      angle,
+      pos: [
+        LOOK_TARGET.x + horiz * Math.sin(az),
+        height,
+        LOOK_TARGET.z + horiz * Math.cos(az),
+      ] as const,
+      ...(sources[i]! >= 0 ? { mirrorOf: sources[i]! } : {}),
+    };
+  });
+}
+
+export function placeCamera(cam: THREE.Camera, dir: SpriteDir): void {
+  cam.position.set(dir.pos[0], dir.pos[1], dir.pos[2]);
+  cam.lookAt(LOOK_TARGET);
+}
+
+// Default four directions (Front/Right/Back/Left at eye level)
+export const SPRITE_DIRS = buildSpriteDirs(DEFAULT_DIRECTION_SET);
@@ -0,0 +1,107 @@
+import { describe, expect, test } from "bun:test";
+import { buildGodotSpriteFrames, buildUnityClipListing, buildUnityMeta } from "./engineExport";
+import type { SpriteSheet } from "./spriteExport";
+
+// Two directions of three 64 px frames; "W" is drawn as a flip of "E"
+function sheet(): SpriteSheet {
+  return {
+    canvas: { width: 192, height: 128 } as HTMLCanvasElement,
+    name: "hero_walk",
+    clipName: "Walk",
+    dirs: [
+      { label: "E", angle: 90, pos: [1, 0, 0] },
+      { label: "W", angle: 270, pos: [-1, 0, 0], mirrorOf: 0 },
+    ],
+    frameCount: 3,
+    frameSize: 64,
+    frameDuration: 1 / 12,
+    pivots: [[0.4, 1], [0.6, 1]],
+    rootMotion: null,
+    passes: [],
+    depthRanges: [],
+    limbNames: [],
+    layers: [],
+  };
+}
+
+describe("buildGodotSpriteFrames", () => {
+  const tres = buildGodotSpriteFrames(sheet(), "hero_walk.png");
+
+  test("declares one AtlasTexture per frame plus the texture and resource", () => {
+    expect(tres.startsWith('[gd_resource type="SpriteFrames" load_steps=8 format=3]')).toBe(true);
+    expect(tres).toContain('[ext_resource type="Texture2D" path="hero_walk.png" id="1_sheet"]');
+    expect(tres.match(/\[sub_resource type="AtlasTexture"/g)).toHaveLength(6);
+  });
+
+  test("regions follow the grid and margins center the pivot", () => {
+    const texture = (i: number) => tres.split(`id="AtlasTexture_${i}"]\n`)[1]!.split("\n\n")[0]!;
+    // Pivot 0.4 of 64 px = 26 px from the left: 12 px of margin on each side
+    // puts it at the center, and the bottom-edge ground point needs 64 px below
+    expect(texture(1)).toContain("region = Rect2(64, 0, 64, 64)");
+    expect(texture(1)).toContain("margin = Rect2(12, 0, 12, 64)");
+    expect(texture(4)).toContain("region = Rect2(64, 64, 64, 64)");
+    expect(texture(4)).toContain("margin = Rect2(0, 0, 12, 64)");
+  });
+
+  test("writes one looping animation per direction at the export frame rate", () => {
+    const animations = tres.split("animations = [")[1]!;
+    expect(animations.match(/"name": &"(\w+)"/g)).toEqual(['"name": &"E"', '"name": &"W"']);
+    expect(animations.match(/"speed": 12\.0\n/g)).toHaveLength(2);
+    expect(animations.match(/"loop": true/g)).toHaveLength(2);
+    const w = animations.split('"name": &"E"')[1]!;
+    expect(w.match(/AtlasTexture_\d+/g)).toEqual(["AtlasTexture_3", "AtlasTexture_4", "AtlasTexture_5"]);
+  });
+
+  test("keeps fractional frame rates as floats", () => {
+    const tres = buildGodotSpriteFrames({ ...sheet(), frameDuration: 0.04 / 3 }, "a.png");
+    expect(tres).toContain('"speed": 75.0\n');
+    expect(buildGodotSpriteFrames({ ...sheet(), frameDuration: 1 / 7.5 }, "a.png")).toContain('"speed": 7.5\n');
+  });
+});
+
+describe("buildUnityMeta", () => {
+  const meta = buildUnityMeta(sheet(), "hero_walk.png");
+
+  test("slices one sprite per frame with bottom-left rects and flipped pivots", () => {
+    const sprite = (name: string) => meta.split(`      name: ${name}\n`)[1]!.split("    - serializedVersion")[0]!;
+    expect(meta.match(/^ {6}name: /gm)).toHaveLength(6);
+    expect(sprite("hero_walk_E_0")).toContain("        x: 0\n        y: 64\n        width: 64\n        height: 64");
+    expect(sprite("hero_walk_W_2")).toContain("        x: 128\n        y: 0\n");
+    expect(sprite("hero_walk_E_0")).toContain("pivot: {x: 0.4, y: 0}");
+    expect(sprite("hero_walk_W_2")).toContain("pivot: {x: 0.6, y: 0}");
+    expect(sprite("hero_walk_W_2")).toContain("internalID: 21300010");
+    expect(meta).toContain("      hero_walk_E_1: 21300002\n");
+    expect(meta).toContain("  spritePixelsToUnits: 64\n");
+  });
+
+  test("guid and sprite ids are stable across exports and differ per image", () => {
+    const guid = (text: string) => text.match(/^guid: ([0-9a-f]+)$/m)![1]!;
+    expect(guid(meta)).toMatch(/^[0-9a-f]{32}$/);
+    expect(buildUnityMeta(sheet(), "hero_walk.png")).toBe(meta);
+    expect(guid(buildUnityMeta(sheet(), "hero_run.png"))).not.toBe(guid(meta));
+    const ids = meta.match(/spriteID: ([0-9a-f]{32})/g)!;
+    expect(new Set(ids).size).toBe(6);
+  });
+});
+
+describe("buildUnityClipListing", () => {
+  test("lists keyframes per direction addressed by texture guid and fileID", () => {
+    const listing = buildUnityClipListing(sheet(), "hero_walk.png");
+    const meta = buildUnityMeta(sheet(), "hero_walk.png");
+    expect(listing.texture).toEqual({ image: "hero_walk.png", guid: meta.match(/^guid: (\w+)$/m)![1]! });
+    expect(listing.sampleRate).toBe(12);
+    expect(listing.clips.map(c => c.name)).toEqual(["hero_walk_E", "hero_walk_W"]);
+
+    const e = listing.clips[0]!;
+    const w = listing.clips[1]!;
+    expect(e.mirrorOf).toBeUndefined();
+    expect(e.duration).toBe(0.25);
+    expect(e.keyframes).toEqual([
+      { time: 0, sprite: "hero_walk_E_0", fileID: 21300000 },
+      { time: 0.083333, sprite: "hero_walk_E_1", fileID: 21300002 },
+      { time: 0.166667, sprite: "hero_walk_E_2", fileID: 21300004 },
+    ]);
+    expect(w).toMatchObject({ loop: true, mirrorOf: "hero_walk_E", flipX: true });
+    expect(w.keyframes.map(k => k.fileID)).toEqual([21300006, 21300008, 21300010]);
+  });
+});
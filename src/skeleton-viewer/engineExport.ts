@@ -0,0 +1,249 @@
+import type { SpriteSheet } from "./spriteExport";
+import { sheetFrames, sheetTags, type AtlasFrame } from "./atlasMeta";
+
+export type EngineTarget = "godot" | "unity";
+
+export const ENGINE_TARGETS: { value: EngineTarget; label: string }[] = [
+  { value: "godot", label: "Godot" },
+  { value: "unity", label: "Unity" },
+];
+
+export type EngineTargetSettings = Record<EngineTarget, boolean>;
+
+export const DEFAULT_ENGINE_TARGETS: EngineTargetSettings = {
+  godot: false,
+  unity: false,
+};
+
+/** Godot resource written next to `image`. */
+export const godotResourceName = (image: string) => image.replace(/\.png$/i, ".tres");
+/** Unity pairs `x.png` with `x.png.meta`. */
+export const unityMetaName = (image: string) => `${image}.meta`;
+export const unityClipsName = (image: string) => image.replace(/\.png$/i, "-unity-clips.json");
+
+// ── Godot ────────────────────────────────────────────────────────────────────
+
+/**
+ * AtlasTexture margin that puts the pivot at the texture's center, so an
+ * AnimatedSprite2D with the default `centered = true` stands on the ground
+ * point. SpriteFrames has no per-frame offset; the margin is the only place
+ * a per-direction pivot fits.
+ */
+function pivotMargin(f: AtlasFrame): [number, number, number, number] {
+  const px = Math.round(f.pivot.x * f.rect.w);
+  const py = Math.round(f.pivot.y * f.rect.h);
+  return [
+    Math.max(0, f.rect.w - 2 * px),
+    Math.max(0, f.rect.h - 2 * py),
+    Math.abs(2 * px - f.rect.w),
+    Math.abs(2 * py - f.rect.h),
+  ];
+}
+
+/**
+ * Godot 4 SpriteFrames (.tres): one looping animation per direction, playing
+ * at the export's frame rate. `image` is referenced relative to the .tres,
+ * so both files go into the same project folder.
+ */
+export function buildGodotSpriteFrames(sheet: SpriteSheet, image: string): string {
+  const frames = sheetFrames(sheet);
+  const fps = 1 / sheet.frameDuration;
+  const lines: string[] = [
+    `[gd_resource type="SpriteFrames" load_steps=${frames.length + 2} format=3]`,
+    "",
+    `[ext_resource type="Texture2D" path="${image}" id="1_sheet"]`,
+    "",
+  ];
+
+  frames.forEach((f, i) => {
+    const [mx, my, mw, mh] = pivotMargin(f);
+    lines.push(
+      `[sub_resource type="AtlasTexture" id="AtlasTexture_${i}"]`,
+      `atlas = ExtResource("1_sheet")`,
+      `region = Rect2(${f.rect.x}, ${f.rect.y}, ${f.rect.w}, ${f.rect.h})`,
+      `margin = Rect2(${mx}, ${my}, ${mw}, ${mh})`,
+      "filter_clip = true",
+      "",
+    );
+  });
+
+  const animations = sheetTags(sheet).map(tag => {
+    const entries = [];
+    for (let i = tag.from; i <= tag.to; i++) {
+      entries.push(`{\n"duration": 1.0,\n"texture": SubResource("AtlasTexture_${i}")\n}`);
+    }
+    return `{\n"frames": [${entries.join(", ")}],\n"loop": true,\n"name": &"${tag.name}",\n"speed": ${godotFloat(fps)}\n}`;
+  });
+  lines.push("[resource]", `animations = [${animations.join(", ")}]`, "");
+  return lines.join("\n");
+}
+
+// Godot always writes floats with a decimal point
+function godotFloat(v: number): string {
+  const s = String(Math.round(v * 1e6) / 1e6);
+  return s.includes(".") ? s : `${s}.0`;
+}
+
+// ── Unity ────────────────────────────────────────────────────────────────────
+
+// FNV-1a; seeds make independent 32-bit lanes for longer ids
+function fnv1a(text: string, seed: number): number {
+  let h = (0x811c9dc5 ^ seed) >>> 0;
+  for (let i = 0; i < text.length; i++) {
+    h ^= text.charCodeAt(i);
+    h = Math.imul(h, 0x01000193) >>> 0;
+  }
+  return h;
+}
+
+/**
+ * Deterministic 32-hex-digit id: re-exporting the same sheet keeps the same
+ * guid and sprite ids, so scene references in Unity survive.
+ */
+function stableHex(text: string): string {
+  return [0, 1, 2, 3].map(seed => fnv1a(text, seed).toString(16).padStart(8, "0")).join("");
+}
+
+// Sprite sub-asset fileIDs, numbered the way Unity's legacy
+// fileIDToRecycleName table did (213 is the Sprite class id)
+const spriteFileId = (index: number) => 21300000 + index * 2;
+
+/**
+ * TextureImporter .meta slicing the sheet into one sprite per frame, pivots
+ * included. Point filtering, no compression, and one frame = one world unit.
+ * Unity rects and pivots use a bottom-left origin.
+ */
+export function buildUnityMeta(sheet: SpriteSheet, image: string): string {
+  const frames = sheetFrames(sheet);
+  const texHeight = sheet.canvas.height;
+  const round = (v: number) => Math.round(v * 10000) / 10000;
+
+  const sprites = frames.flatMap((f, i) => [
+    "    - serializedVersion: 2",
+    `      name: ${f.name}`,
+    "      rect:",
+    "        serializedVersion: 2",
+    `        x: ${f.rect.x}`,
+    `        y: ${texHeight - f.rect.y - f.rect.h}`,
+    `        width: ${f.rect.w}`,
+    `        height: ${f.rect.h}`,
+    "      alignment: 9",
+    `      pivot: {x: ${round(f.pivot.x)}, y: ${round(1 - f.pivot.y)}}`,
+    "      border: {x: 0, y: 0, z: 0, w: 0}",
+    "      outline: []",
+    "      physicsShape: []",
+    "      tessellationDetail: 0",
+    "      bones: []",
+    `      spriteID: ${stableHex(`${image}/${f.name}`)}`,
+    `      internalID: ${spriteFileId(i)}`,
+    "      vertices: []",
+    "      indices: ",
+    "      edges: []",
+    "      weights: []",
+  ]);
+
+  return [
+    "fileFormatVersion: 2",
+    `guid: ${stableHex(image)}`,
+    "TextureImporter:",
+    "  internalIDToNameTable: []",
+    "  externalObjects: {}",
+    "  serializedVersion: 12",
+    "  mipmaps:",
+    "    enableMipMap: 0",
+    "  isReadable: 0",
+    "  textureSettings:",
+    "    serializedVersion: 2",
+    "    filterMode: 0",
+    "    aniso: 1",
+    "    mipBias: 0",
+    "    wrapU: 1",
+    "    wrapV: 1",
+    "    wrapW: 1",
+    "  alphaUsage: 1",
+    "  alphaIsTransparency: 1",
+    "  textureType: 8",
+    "  textureShape: 1",
+    "  spriteMode: 2",
+    "  spriteExtrude: 1",
+    "  spriteMeshType: 0",
+    "  alignment: 9",
+    "  spritePivot: {x: 0.5, y: 0}",
+    `  spritePixelsToUnits: ${sheet.frameSize}`,
+    "  spriteGenerateFallbackPhysicsShape: 0",
+    "  npotScale: 0",
+    "  platformSettings:",
+    "  - serializedVersion: 3",
+    "    buildTarget: DefaultTexturePlatform",
+    "    maxTextureSize: 8192",
+    "    textureFormat: -1",
+    "    textureCompression: 0",
+    "    compressionQuality: 50",
+    "    crunchedCompression: 0",
+    "  spriteSheet:",
+    "    serializedVersion: 2",
+    "    sprites:",
+    ...sprites,
+    "    outline: []",
+    "    physicsShape: []",
+    "    bones: []",
+    "    spriteID: ",
+    "    internalID: 0",
+    "    vertices: []",
+    "    indices: ",
+    "    edges: []",
+    "    weights: []",
+    "    secondaryTextures: []",
+    "    nameFileIdTable:",
+    ...frames.map((f, i) => `      ${f.name}: ${spriteFileId(i)}`),
+    "  spritePackingTag: ",
+    "  pSDRemoveMatte: 0",
+    "  userData: ",
+    "  assetBundleName: ",
+    "  assetBundleVariant: ",
+    "",
+  ].join("\n");
+}
+
+export interface UnityClipListing {
+  texture: { image: string; guid: string };
+  sampleRate: number;
+  clips: {
+    name: string;
+    loop: true;
+    mirrorOf?: string; // clip this one can replace by playing it with flipX
+    flipX?: true;
+    duration: number; // seconds
+    keyframes: { time: number; sprite: string; fileID: number }[];
+  }[];
+}
+
+/**
+ * One looping clip per direction with sprite keyframes, addressed the way an
+ * AnimationClip's m_Sprite curve references them (texture guid + fileID). The
+ * last frame is held until `duration`, where the loop wraps.
+ */
+export function buildUnityClipListing(sheet: SpriteSheet, image: string): UnityClipListing {
+  const frames = sheetFrames(sheet);
+  const guid = stableHex(image);
+  const round = (v: number) => Math.round(v * 1e6) / 1e6;
+  return {
+    texture: { image, guid },
+    sampleRate: round(1 / sheet.frameDuration),
+    clips: sheetTags(sheet).map((tag, di) => {
+      // Mirrored clips can instead play their source with SpriteRenderer.flipX
+      const src = sheet.dirs[di]!.mirrorOf;
+      return {
+        name: `${sheet.name}_${tag.name}`,
+        loop: true,
+        ...(src !== undefined ? { mirrorOf: `${sheet.name}_${sheet.dirs[src]!.label}`, flipX: true as const } : {}),
+        duration: round(sheet.frameCount * sheet.frameDuration),
+        keyframes: frames.slice(tag.from, tag.to + 1).map((f, i) => ({
+          time: round(i * sheet.frameDuration),
+          sprite: f.name,
+          fileID: spriteFileId(tag.from + i),
+        })),
+      };
+    }),
+  };
+}
@@ -0,0 +1,86 @@
+// Every export goes through here: artifacts are POSTed to the dev server,
+// which writes them into one folder per export with a manifest. When the
+// server is unreachable (static hosting, server stopped) the files are
+// downloaded by the browser instead.
+
+export interface ExportArtifact {
+  name: string; // file name inside the export folder
+  data: Blob;
+}
+
+/** What the export is of — names the folder and goes into the manifest. */
+export interface ExportInfo {
+  character: string; // source file stem
+  clip: string;
+  kind: string;      // "sprites", "animated", "position-maps", "glb", …
+}
+
+export type ExportResult =
+  | { target: "server"; folder: string; files: string[] }
+  | { target: "download"; files: string[]; reason?: string }; // reason: why the server didn't take it
+
+export function triggerDownload(blob: Blob, filename: string): void {
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = filename;
+  a.click();
+  // Revoking synchronously can cancel the download in some browsers
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+}
+
+// Browsers drop rapid-fire programmatic downloads; space them out
+const DOWNLOAD_SPACING_MS = 150;
+
+async function downloadAll(artifacts: ExportArtifact[]): Promise<void> {
+  for (const [i, { name, data }] of artifacts.entries()) {
+    if (i > 0) await new Promise(resolve => setTimeout(resolve, DOWNLOAD_SPACING_MS));
+    triggerDownload(data, name);
+  }
+}
+
+export async function canvasBlob(canvas: HTMLCanvasElement): Promise<Blob> {
+  const blob = await new Promise<Blob | null>(resolve => canvas.toBlob(resolve, "image/png"));
+  if (!blob) throw new Error("Canvas could not be encoded as PNG");
+  return blob;
+}
+
+export function jsonBlob(json: unknown): Blob {
+  return new Blob([JSON.stringify(json, null, 2)], { type: "application/json" });
+}
+
+/**
+ * Writes `artifacts` through POST /api/exports, falling back to browser
+ * downloads when the server can't take them.
+ */
+export async function saveExport(info: ExportInfo, artifacts: ExportArtifact[]): Promise<ExportResult> {
+  if (artifacts.length === 0) return { target: "download", files: [] };
+
+  const form = new FormData();
+  form.set("character", info.character);
+  form.set("clip", info.clip);
+  form.set("kind", info.kind);
+  artifacts.forEach(a => form.append("files", a.data, a.name));
+
+  let reason: string;
+  try {
+    const res = await fetch("/api/exports", { method: "POST", body: form });
+    if (res.ok) {
+      const { folder, files } = await res.json() as { folder: string; files: string[] };
+      return { target: "server", folder, files };
+    }
+    reason = (await res.text().catch(() => "")) || `server answered ${res.status}`;
+  } catch {
+    reason = "server unreachable";
+  }
+
+  await downloadAll(artifacts);
+  return { target: "download", files: artifacts.map(a => a.name), reason };
+}
+
+/** One-line summary for the UI. */
+export function describeExport(result: ExportResult): string {
+  const count = `${result.files.length} file${result.files.length === 1 ? "" : "s"}`;
+  if (result.target === "server") return `Saved ${count} to ${result.folder}`;
+  return result.reason ? `Downloaded ${count} — export folder not used: ${result.reason}` : `Downloaded ${count}`;
+}
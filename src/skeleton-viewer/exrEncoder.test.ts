@@ -0,0 +1,72 @@
+import { describe, expect, test } from "bun:test";
+import { encodeEXR } from "./exrEncoder";
+
+/** Reads the header attributes and scanline blocks of a single-part EXR. */
+async function readEXR(blob: Blob) {
+  const bytes = new Uint8Array(await blob.arrayBuffer());
+  const view = new DataView(bytes.buffer);
+  let at = 0;
+  const str = () => {
+    const end = bytes.indexOf(0, at);
+    const s = String.fromCharCode(...bytes.subarray(at, end));
+    at = end + 1;
+    return s;
+  };
+
+  expect(view.getUint32(0, true)).toBe(20000630);
+  expect(view.getUint32(4, true)).toBe(2);
+  at = 8;
+  const attrs = new Map<string, { type: string; data: DataView }>();
+  for (let name = str(); name !== ""; name = str()) {
+    const type = str();
+    const size = view.getInt32(at, true);
+    attrs.set(name, { type, data: new DataView(bytes.buffer, at + 4, size) });
+    at += 4 + size;
+  }
+  return { bytes, view, attrs, headerEnd: at };
+}
+
+describe("encodeEXR", () => {
+  test("writes the required header attributes", async () => {
+    const { attrs } = await readEXR(encodeEXR(new Float32Array(3 * 2 * 4), 3, 2));
+    expect([...attrs.keys()].sort()).toEqual([
+      "channels", "compression", "dataWindow", "displayWindow",
+      "lineOrder", "pixelAspectRatio", "screenWindowCenter", "screenWindowWidth",
+    ]);
+    expect(attrs.get("compression")!.data.getUint8(0)).toBe(0);
+
+    const box = attrs.get("dataWindow")!.data;
+    expect([0, 4, 8, 12].map(o => box.getInt32(o, true))).toEqual([0, 0, 2, 1]);
+
+    // chlist: A, B, G, R — each FLOAT (2), sampling 1×1
+    const chlist = attrs.get("channels")!.data;
+    const names: string[] = [];
+    for (let at = 0; chlist.getUint8(at) !== 0; at += 2 + 16) {
+      names.push(String.fromCharCode(chlist.getUint8(at)));
+      expect(chlist.getInt32(at + 2, true)).toBe(2);
+      expect([chlist.getInt32(at + 10, true), chlist.getInt32(at + 14, true)]).toEqual([1, 1]);
+    }
+    expect(names).toEqual(["A", "B", "G", "R"]);
+  });
+
+  test("stores each scanline channel by channel at full float precision", async () => {
+    const width = 2, height = 3;
+    const pixels = new Float32Array(width * height * 4).map((_, i) => i * 0.1 - 1.234567);
+    const { view, headerEnd, bytes } = await readEXR(encodeEXR(pixels, width, height));
+
+    const channelOffset = { A: 3, B: 2, G: 1, R: 0 };
+    for (let y = 0; y < height; y++) {
+      const block = Number(view.getBigUint64(headerEnd + y * 8, true));
+      expect(view.getInt32(block, true)).toBe(y);
+      expect(view.getInt32(block + 4, true)).toBe(width * 4 * 4);
+      Object.values(channelOffset).forEach((offset, ci) => {
+        for (let x = 0; x < width; x++) {
+          const value = view.getFloat32(block + 8 + (ci * width + x) * 4, true);
+          expect(value).toBe(pixels[(y * width + x) * 4 + offset]!);
+        }
+      });
+    }
+    const last = Number(view.getBigUint64(headerEnd + (height - 1) * 8, true));
+    expect(bytes.length).toBe(last + 8 + width * 16);
+  });
+});
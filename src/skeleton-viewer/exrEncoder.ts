@@ -0,0 +1,93 @@
+// Minimal OpenEXR writer: single-part scanline image, NO_COMPRESSION,
+// 32-bit FLOAT channels. Enough for Blender, Nuke and three's EXRLoader.
+
+const EXR_MAGIC = 20000630;
+
+// Growable little-endian byte buffer
+function byteWriter() {
+  let bytes = new Uint8Array(1024);
+  let view = new DataView(bytes.buffer);
+  let length = 0;
+
+  const reserve = (n: number) => {
+    if (length + n <= bytes.length) return;
+    const grown = new Uint8Array(Math.max(bytes.length * 2, length + n));
+    grown.set(bytes);
+    bytes = grown;
+    view = new DataView(grown.buffer);
+  };
+
+  const w = {
+    get length() { return length; },
+    u8(v: number) { reserve(1); view.setUint8(length, v); length += 1; },
+    i32(v: number) { reserve(4); view.setInt32(length, v, true); length += 4; },
+    u32(v: number) { reserve(4); view.setUint32(length, v, true); length += 4; },
+    f32(v: number) { reserve(4); view.setFloat32(length, v, true); length += 4; },
+    u64(v: number) { reserve(8); view.setBigUint64(length, BigInt(v), true); length += 8; },
+    str(s: string) { for (let i = 0; i < s.length; i++) w.u8(s.charCodeAt(i)); w.u8(0); },
+    attr(name: string, type: string, size: number, write: () => void) {
+      w.str(name);
+      w.str(type);
+      w.i32(size);
+      write();
+    },
+    result: () => bytes.slice(0, length),
+  };
+  return w;
+}
+
+/**
+ * Encodes a top-left-origin RGBA Float32 image as OpenEXR. Values are written
+ * unmodified, so world-space positions survive at full float precision.
+ */
+export function encodeEXR(pixels: Float32Array, width: number, height: number): Blob {
+  // EXR stores channels sorted by name, and each scanline channel-by-channel
+  const channels = [
+    { name: "A", offset: 3 },
+    { name: "B", offset: 2 },
+    { name: "G", offset: 1 },
+    { name: "R", offset: 0 },
+  ];
+
+  const w = byteWriter();
+  w.u32(EXR_MAGIC);
+  w.u32(2); // version 2, single-part scanline
+
+  // chlist: per channel name, pixelType (2 = FLOAT), pLinear + reserved, x/y sampling
+  const chlistSize = channels.reduce((n, c) => n + c.name.length + 1 + 16, 0) + 1;
+  w.attr("channels", "chlist", chlistSize, () => {
+    channels.forEach(c => {
+      w.str(c.name);
+      w.i32(2);
+      w.u32(0);
+      w.i32(1);
+      w.i32(1);
+    });
+    w.u8(0);
+  });
+  w.attr("compression", "compression", 1, () => w.u8(0)); // NO_COMPRESSION
+  const box = () => { w.i32(0); w.i32(0); w.i32(width - 1); w.i32(height - 1); };
+  w.attr("dataWindow", "box2i", 16, box);
+  w.attr("displayWindow", "box2i", 16, box);
+  w.attr("lineOrder", "lineOrder", 1, () => w.u8(0)); // INCREASING_Y
+  w.attr("pixelAspectRatio", "float", 4, () => w.f32(1));
+  w.attr("screenWindowCenter", "v2f", 8, () => { w.f32(0); w.f32(0); });
+  w.attr("screenWindowWidth", "float", 4, () => w.f32(1));
+  w.u8(0); // end of header
+
+  // Offset table: one block per scanline without compression
+  const rowBytes = width * channels.length * 4;
+  const blockBytes = 8 + rowBytes;
+  const firstBlock = w.length + height * 8;
+  for (let y = 0; y < height; y++) w.u64(firstBlock + y * blockBytes);
+
+  for (let y = 0; y < height; y++) {
+    w.i32(y);
+    w.i32(rowBytes);
+    channels.forEach(c => {
+      for (let x = 0; x < width; x++) w.f32(pixels[(y * width + x) * 4 + c.offset]!);
+    });
+  }
+
+  return new Blob([w.result()], { type: "image/x-exr" });
+}
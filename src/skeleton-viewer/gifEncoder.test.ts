@@ -0,0 +1,181 @@
+import { describe, expect, test } from "bun:test";
+import { encodeGIF } from "./gifEncoder";
+
+// Bun has no DOM; the encoder only needs data/width/height (and ImageData for
+// the median-cut path over more than 255 colors)
+class TestImageData {
+  data: Uint8ClampedArray;
+  constructor(public width: number, public height: number) {
+    this.data = new Uint8ClampedArray(width * height * 4);
+  }
+}
+globalThis.ImageData ??= TestImageData as unknown as typeof ImageData;
+
+function image(width: number, height: number, pixel: (x: number, y: number) => [number, number, number, number]): ImageData {
+  const img = new TestImageData(width, height);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) img.data.set(pixel(x, y), (y * width + x) * 4);
+  }
+  return img as unknown as ImageData;
+}
+
+function lzwDecode(data: Uint8Array, minCodeSize: number): number[] {
+  const clear = 1 << minCodeSize;
+  const eoi = clear + 1;
+  let size = minCodeSize + 1;
+  let dict: number[][] = [];
+  let prev: number[] | null = null;
+  const reset = () => {
+    dict = Array.from({ length: eoi + 1 }, (_, i) => (i < clear ? [i] : []));
+    size = minCodeSize + 1;
+    prev = null;
+  };
+  reset();
+
+  const out: number[] = [];
+  for (let bit = 0; bit + size <= data.length * 8;) {
+    let code = 0;
+    for (let i = 0; i < size; i++, bit++) code |= ((data[bit >> 3]! >> (bit & 7)) & 1) << i;
+    if (code === clear) { reset(); continue; }
+    if (code === eoi) return out;
+
+    const entry: number[] = code < dict.length ? dict[code]! : [...prev!, prev![0]!];
+    out.push(...entry);
+    if (prev) {
+      dict.push([...prev, entry[0]!]);
+      if (dict.length === 1 << size && size < 12) size++;
+    }
+    prev = entry;
+  }
+  throw new Error("no end-of-information code");
+}
+
+interface DecodedGIF {
+  width: number;
+  height: number;
+  palette: number[];
+  loops: boolean;
+  frames: { delay: number; transparent: number; disposal: number; indices: number[] }[];
+}
+
+function decodeGIF(bytes: Uint8Array): DecodedGIF {
+  expect(String.fromCharCode(...bytes.subarray(0, 6))).toBe("GIF89a");
+  const u16 = (at: number) => bytes[at]! | (bytes[at + 1]! << 8);
+  const width = u16(6), height = u16(8);
+  const packed = bytes[10]!;
+  expect(packed & 0x80).toBe(0x80);
+  const tableSize = 1 << ((packed & 7) + 1);
+  const palette = Array.from({ length: tableSize }, (_, i) =>
+    (bytes[13 + i * 3]! << 16) | (bytes[14 + i * 3]! << 8) | bytes[15 + i * 3]!);
+
+  const gif: DecodedGIF = { width, height, palette, loops: false, frames: [] };
+  let at = 13 + tableSize * 3;
+  let control = { delay: 0, transparent: -1, disposal: 0 };
+  const readBlocks = () => {
+    const parts: number[] = [];
+    for (let n = bytes[at++]!; n > 0; n = bytes[at++]!) {
+      parts.push(...bytes.subarray(at, at + n));
+      at += n;
+    }
+    return new Uint8Array(parts);
+  };
+
+  for (;;) {
+    const block = bytes[at++];
+    if (block === 0x3b) return gif;
+    if (block === 0x21) {
+      const label = bytes[at++];
+      if (label === 0xf9) {
+        const flags = bytes[at + 1]!;
+        control = { delay: u16(at + 2), transparent: flags & 1 ? bytes[at + 4]! : -1, disposal: (flags >> 2) & 7 };
+        at += 1 + bytes[at]!;
+        readBlocks();
+      } else if (label === 0xff) {
+        const app = String.fromCharCode(...bytes.subarray(at + 1, at + 12));
+        at += 1 + bytes[at]!;
+        const data = readBlocks();
+        if (app === "NETSCAPE2.0" && data[0] === 1 && u16ofData(data, 1) === 0) gif.loops = true;
+      } else {
+        at += 1 + bytes[at]!;
+        readBlocks();
+      }
+    } else if (block === 0x2c) {
+      expect([u16(at), u16(at + 2), u16(at + 4), u16(at + 6)]).toEqual([0, 0, width, height]);
+      at += 9;
+      const minCodeSize = bytes[at++]!;
+      const indices = lzwDecode(readBlocks(), minCodeSize);
+      gif.frames.push({ ...control, indices });
+    } else {
+      throw new Error(`unexpected block 0x${block?.toString(16)}`);
+    }
+  }
+}
+
+const u16ofData = (data: Uint8Array, at: number) => data[at]! | (data[at + 1]! << 8);
+
+async function encodeAndDecode(frames: ImageData[], delays: number[]) {
+  return decodeGIF(new Uint8Array(await encodeGIF(frames, delays).arrayBuffer()));
+}
+
+/** RGBA of every pixel as the decoder sees it (transparent = null). */
+function pixelsOf(gif: DecodedGIF, frame: number): (number | null)[] {
+  const f = gif.frames[frame]!;
+  return f.indices.map(i => (i === f.transparent ? null : gif.palette[i]!));
+}
+
+describe("encodeGIF", () => {
+  test("round-trips few-color frames exactly, with transparency", async () => {
+    const colors = [0xff0000, 0x00ff00, 0x0000ff];
+    const frames = [0, 1].map(f => image(7, 5, (x, y) => {
+      if ((x + y + f) % 4 === 0) return [0, 0, 0, 0];
+      const c = colors[(x + f) % 3]!;
+      return [c >> 16, (c >> 8) & 0xff, c & 0xff, 255];
+    }));
+    const gif = await encodeAndDecode(frames, [10, 25]);
+
+    expect([gif.width, gif.height, gif.loops]).toEqual([7, 5, true]);
+    expect(gif.frames.map(f => [f.delay, f.disposal])).toEqual([[10, 2], [25, 2]]);
+    frames.forEach((frame, fi) => {
+      const expected = Array.from({ length: 35 }, (_, p) => {
+        const d = frame.data;
+        return d[p * 4 + 3]! < 128 ? null : (d[p * 4]! << 16) | (d[p * 4 + 1]! << 8) | d[p * 4 + 2]!;
+      });
+      expect(pixelsOf(gif, fi)).toEqual(expected);
+    });
+  });
+
+  test("survives the 4096-code dictionary reset on noisy frames", async () => {
+    // 200 colors in a pseudo-random pattern fill the LZW table many times over
+    let seed = 7;
+    const rand = () => (seed = (seed * 1103515245 + 12345) & 0x7fffffff) % 200;
+    const frame = image(120, 90, () => {
+      const c = rand();
+      return [c, 255 - c, (c * 7) & 0xff, 255];
+    });
+    const gif = await encodeAndDecode([frame], [4]);
+
+    const expected = Array.from({ length: 120 * 90 }, (_, p) =>
+      (frame.data[p * 4]! << 16) | (frame.data[p * 4 + 1]! << 8) | frame.data[p * 4 + 2]!);
+    expect(pixelsOf(gif, 0)).toEqual(expected);
+  });
+
+  test("widens the code size before EOI when the stream ends on a width boundary", async () => {
+    // 56 equal pixels encode as runs of 1..10 plus one: after the last data
+    // code the decoder's table holds 16 codes, so it reads EOI at 5 bits
+    const gif = await encodeAndDecode([image(56, 1, () => [255, 0, 0, 255])], [10]);
+    expect(pixelsOf(gif, 0)).toEqual(Array(56).fill(0xff0000));
+  });
+
+  test("reduces frames with more than 255 colors to a 256-entry table", async () => {
+    const frame = image(32, 32, (x, y) => [x * 8, y * 8, (x * y) & 0xff, 255]);
+    const gif = await encodeAndDecode([frame], [10]);
+    expect(gif.palette).toHaveLength(256);
+    expect(gif.frames[0]!.indices).toHaveLength(32 * 32);
+    expect(gif.frames[0]!.indices.every(i => i < 255)).toBe(true);
+  });
+
+  test("writes fully transparent frames", async () => {
+    const gif = await encodeAndDecode([image(3, 3, () => [0, 0, 0, 0])], [10]);
+    expect(pixelsOf(gif, 0)).toEqual(Array(9).fill(null));
+  });
+});
@@ -0,0 +1,145 @@
+// Minimal animated GIF89a writer: one global palette, 1-bit transparency,
+// infinite loop. Enough for sharing sprite animations in chat and trackers.
+
+import { extractPalette, type Palette } from "./palette";
+import { nearestColorLookup } from "./pixelPost";
+
+const MAX_COLORS = 255; // index 255 is reserved for transparency
+
+/**
+ * Global palette for a set of frames: exact when they use at most 255 colors
+ * (the usual case after pixel post), median cut otherwise.
+ */
+function framePalette(frames: ImageData[]): Palette {
+  const colors = new Set<number>();
+  for (const { data } of frames) {
+    for (let i = 0; i < data.length; i += 4) {
+      if (data[i + 3]! >= 128) colors.add((data[i]! << 16) | (data[i + 1]! << 8) | data[i + 2]!);
+    }
+  }
+  if (colors.size <= MAX_COLORS) return [...colors];
+
+  const { width, height } = frames[0]!;
+  const all = new ImageData(width, height * frames.length);
+  frames.forEach((f, i) => all.data.set(f.data, i * f.data.length));
+  return extractPalette(all, MAX_COLORS);
+}
+
+/** Packs variable-width LZW codes LSB-first, as GIF expects. */
+function lzwEncode(indices: Uint8Array, minCodeSize: number): Uint8Array {
+  const out: number[] = [];
+  let bitBuffer = 0;
+  let bitCount = 0;
+  const emit = (code: number, size: number) => {
+    bitBuffer |= code << bitCount;
+    bitCount += size;
+    while (bitCount >= 8) {
+      out.push(bitBuffer & 0xff);
+      bitBuffer >>>= 8;
+      bitCount -= 8;
+    }
+  };
+
+  const clearCode = 1 << minCodeSize;
+  const eoiCode = clearCode + 1;
+  let codeSize = minCodeSize + 1;
+  let nextCode = eoiCode + 1;
+  let table = new Map<number, number>();
+
+  emit(clearCode, codeSize);
+  let current = indices[0]!;
+  for (let i = 1; i < indices.length; i++) {
+    const k = indices[i]!;
+    const key = (current << 8) | k;
+    const hit = table.get(key);
+    if (hit !== undefined) {
+      current = hit;
+      continue;
+    }
+    emit(current, codeSize);
+    if (nextCode === 4096) {
+      // Dictionary full — start over
+      emit(clearCode, codeSize);
+      table = new Map();
+      codeSize = minCodeSize + 1;
+      nextCode = eoiCode + 1;
+    } else {
+      if (nextCode >= 1 << codeSize) codeSize++;
+      table.set(key, nextCode++);
+    }
+    current = k;
+  }
+  emit(current, codeSize);
+  // Decoders add a table entry for that last code and widen before reading EOI
+  if (nextCode >= 1 << codeSize && codeSize < 12) codeSize++;
+  emit(eoiCode, codeSize);
+  if (bitCount > 0) out.push(bitBuffer & 0xff);
+  return new Uint8Array(out);
+}
+
+/** Splits image data into the ≤255-byte sub-blocks GIF requires, plus terminator. */
+function subBlocks(data: Uint8Array): number[] {
+  const out: number[] = [];
+  for (let i = 0; i < data.length; i += 255) {
+    const block = data.subarray(i, i + 255);
+    out.push(block.length);
+    for (const b of block) out.push(b);
+  }
+  out.push(0);
+  return out;
+}
+
+const u16 = (v: number) => [v & 0xff, (v >> 8) & 0xff];
+
+/**
+ * Encodes RGBA frames of equal size as a looping GIF. `delays` are per frame
+ * in centiseconds. Pixels with alpha < 128 become transparent.
+ */
+export function encodeGIF(frames: ImageData[], delays: number[]): Blob {
+  const { width, height } = frames[0]!;
+  const palette = framePalette(frames);
+  const transparent = palette.length; // first unused slot
+  const tableBits = Math.max(1, Math.ceil(Math.log2(palette.length + 1)));
+  const tableSize = 1 << tableBits;
+  const nearest = palette.length ? nearestColorLookup(palette) : null;
+  const indexOf = new Map(palette.map((c, i) => [c, i]));
+
+  const bytes: number[] = [];
+  const ascii = (s: string) => { for (let i = 0; i < s.length; i++) bytes.push(s.charCodeAt(i)); };
+
+  ascii("GIF89a");
+  bytes.push(...u16(width), ...u16(height), 0xf0 | (tableBits - 1), 0, 0);
+  for (let i = 0; i < tableSize; i++) {
+    const c = palette[i] ?? 0;
+    bytes.push(c >> 16, (c >> 8) & 0xff, c & 0xff);
+  }
+
+  // NETSCAPE2.0 application extension: loop forever
+  bytes.push(0x21, 0xff, 0x0b);
+  ascii("NETSCAPE2.0");
+  bytes.push(0x03, 0x01, ...u16(0), 0x00);
+
+  frames.forEach((frame, fi) => {
+    // Graphic control: dispose to background so transparent pixels clear the previous frame
+    bytes.push(0x21, 0xf9, 0x04, (2 << 2) | 1, ...u16(delays[fi] ?? 10), transparent, 0x00);
+    bytes.push(0x2c, ...u16(0), ...u16(0), ...u16(width), ...u16(height), 0x00);
+
+    const { data } = frame;
+    const indices = new Uint8Array(width * height);
+    for (let p = 0, i = 0; p < indices.length; p++, i += 4) {
+      if (data[i + 3]! < 128 || !nearest) {
+        indices[p] = transparent;
+        continue;
+      }
+      const exact = (data[i]! << 16) | (data[i + 1]! << 8) | data[i + 2]!;
+      indices[p] = indexOf.get(exact) ?? indexOf.get(nearest(data[i]!, data[i + 1]!, data[i + 2]!))!;
+    }
+
+    const minCodeSize = Math.max(2, tableBits);
+    bytes.push(minCodeSize);
+    for (const b of subBlocks(lzwEncode(indices, minCodeSize))) bytes.push(b);
+  });
+
+  bytes.push(0x3b);
+  return new Blob([new Uint8Array(bytes)], { type: "image/gif" });
+}
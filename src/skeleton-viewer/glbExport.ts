@@ -0,0 +1,101 @@
+import * as THREE from "three";
+import { GLTFExporter } from "three/examples/jsm/exporters/GLTFExporter.js";
+import { mergeGeometries } from "three/examples/jsm/utils/BufferGeometryUtils.js";
+import { isBone } from "./boneVisuals";
+import { saveExport, type ExportInfo, type ExportResult } from "./exportSink";
+import type { Character } from "./character";
+
+/**
+ * Merges every visual (capsules, joint dots, head, accessories) into one
+ * SkinnedMesh in which each vertex is weighted 1.0 to the bone it rides on.
+ * The current pose becomes the bind pose. glTF importers (Blender, engines)
+ * then see a regular skinned character instead of loose bone-parented props.
+ */
+function buildSkinnedBody(character: Character): { mesh: THREE.SkinnedMesh; visuals: THREE.Object3D[] } {
+  const { root, bones } = character;
+  root.updateMatrixWorld(true);
+  const rootInverse = root.matrixWorld.clone().invert();
+
+  const visuals: THREE.Object3D[] = [];
+  const geometries: THREE.BufferGeometry[] = [];
+  const materials: THREE.Material[] = [];
+
+  bones.forEach((bone, boneIndex) => {
+    bone.children.filter(c => !isBone(c) && c.visible).forEach(visual => {
+      visuals.push(visual);
+      visual.traverseVisible(obj => {
+        if (!(obj instanceof THREE.Mesh)) return;
+        const material = Array.isArray(obj.material) ? obj.material[0]! : obj.material;
+
+        // Bake into root space; flat-shaded materials get per-face normals,
+        // since glTF has no flat-shading flag
+        let geo = obj.geometry.index ? obj.geometry.toNonIndexed() : obj.geometry.clone();
+        geo = stripAttributes(geo);
+        geo.applyMatrix4(rootInverse.clone().multiply(obj.matrixWorld));
+        if ((material as THREE.MeshPhongMaterial).flatShading) geo.computeVertexNormals();
+
+        const count = geo.attributes.position!.count;
+        const skinIndex = new Uint16Array(count * 4);
+        const skinWeight = new Float32Array(count * 4);
+        for (let i = 0; i < count; i++) {
+          skinIndex[i * 4] = boneIndex;
+          skinWeight[i * 4] = 1;
+        }
+        geo.setAttribute("skinIndex", new THREE.Uint16BufferAttribute(skinIndex, 4));
+        geo.setAttribute("skinWeight", new THREE.Float32BufferAttribute(skinWeight, 4));
+        geometries.push(geo);
+        materials.push(material);
+      });
+    });
+  });
+
+  const merged = mergeGeometries(geometries, true) ?? new THREE.BufferGeometry();
+  geometries.forEach(g => g.dispose());
+
+  const mesh = new THREE.SkinnedMesh(merged, materials);
+  mesh.name = "Body";
+  root.add(mesh);
+  mesh.updateMatrixWorld(true);
+  mesh.bind(new THREE.Skeleton(bones as THREE.Bone[]));
+  return { mesh, visuals };
+}
+
+// mergeGeometries needs identical attribute sets; keep what every primitive has
+function stripAttributes(geo: THREE.BufferGeometry): THREE.BufferGeometry {
+  Object.keys(geo.attributes).forEach(name => {
+    if (name !== "position" && name !== "normal") geo.deleteAttribute(name);
+  });
+  if (!geo.attributes.normal) geo.computeVertexNormals();
+  geo.clearGroups();
+  return geo;
+}
+
+/**
+ * Writes the styled character as a binary glTF: bone hierarchy, one skinned
+ * body mesh with its materials, and `clip`. Pass the original clip to keep
+ * the Hips travel or the in-place copy to drop it.
+ */
+export async function exportCharacterGLB(
+  character: Character,
+  clip: THREE.AnimationClip | null,
+  name: string,
+  info: ExportInfo,
+): Promise<ExportResult> {
+  const { mesh, visuals } = buildSkinnedBody(character);
+  visuals.forEach(v => { v.visible = false; });
+
+  let glb: ArrayBuffer;
+  try {
+    glb = await new GLTFExporter().parseAsync(character.root, {
+      binary: true,
+      onlyVisible: true,
+      animations: clip ? [clip] : [],
+    }) as ArrayBuffer;
+  } finally {
+    visuals.forEach(v => { v.visible = true; });
+    mesh.removeFromParent();
+    mesh.geometry.dispose();
+    mesh.skeleton.dispose();
+  }
+  return saveExport(info, [{ name: `${name}.glb`, data: new Blob([glb], { type: "model/gltf-binary" }) }]);
+}
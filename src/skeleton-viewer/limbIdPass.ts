@@ -0,0 +1,144 @@
+import * as THREE from "three";
+
+export interface LimbIdFrame {
+  /**
+   * limbId+1 per pixel, top-left origin, row-major. 0 = background or a
+   * non-limb mesh (joint dot, accessory). limbId indexes limbNames[].
+   */
+  ids: Uint16Array;
+  /** Linear view-space depth (metres from the camera); Infinity = background. */
+  depth: Float32Array;
+  width: number;
+  height: number;
+}
+
+const VERT = /* glsl */ `
+  varying float vViewDepth;
+  void main() {
+    vec4 viewPos = modelViewMatrix * vec4(position, 1.0);
+    vViewDepth = -viewPos.z;
+    gl_Position = projectionMatrix * viewPos;
+  }
+`;
+
+const FRAG = /* glsl */ `
+  uniform float uLimbId;
+  varying float vViewDepth;
+  void main() {
+    gl_FragColor = vec4(uLimbId + 1.0, vViewDepth, 0.0, 1.0);
+  }
+`;
+
+/** Limb names in limbMeshes order — the same ids generatePositionMaps assigns. */
+export function limbNameList(limbMeshes: Map<string, THREE.Mesh[]>): string[] {
+  return [...limbMeshes.keys()];
+}
+
+/** The limb's counterpart on the other side of the body ("LeftArm" ↔ "RightArm"). */
+export function mirrorLimbName(name: string): string {
+  return name.replace(/Left|Right/g, side => (side === "Left" ? "Right" : "Left"));
+}
+
+/**
+ * For each limb id, the id of its mirrored counterpart — itself for limbs on
+ * the centre line or without a counterpart. Used when a frame is flipped.
+ */
+export function mirroredLimbIds(limbNames: string[]): number[] {
+  return limbNames.map((name, id) => {
+    const twin = limbNames.indexOf(mirrorLimbName(name));
+    return twin >= 0 ? twin : id;
+  });
+}
+
+export interface LimbIdPass {
+  render(
+    renderer: THREE.WebGLRenderer,
+    scene: THREE.Scene,
+    camera: THREE.Camera,
+    width: number,
+    height: number,
+  ): LimbIdFrame;
+  dispose(): void;
+}
+
+/**
+ * Renders limb ids and depth for a scene by temporarily swapping every mesh
+ * material for an id-encoding ShaderMaterial. Non-limb meshes still occlude,
+ * but write id 0.
+ */
+export function createLimbIdPass(limbMeshes: Map<string, THREE.Mesh[]>): LimbIdPass {
+  const mats: THREE.ShaderMaterial[] = [];
+  const material = (id: number) => {
+    const mat = new THREE.ShaderMaterial({
+      vertexShader: VERT,
+      fragmentShader: FRAG,
+      uniforms: { uLimbId: { value: id } },
+    });
+    mats.push(mat);
+    return mat;
+  };
+
+  const occluderMat = material(-1);
+  const limbMats = new Map<THREE.Mesh, THREE.ShaderMaterial>();
+  limbNameList(limbMeshes).forEach((name, id) => {
+    const mat = material(id);
+    limbMeshes.get(name)!.forEach(mesh => limbMats.set(mesh, mat));
+  });
+
+  let rt: THREE.WebGLRenderTarget | null = null;
+
+  return {
+    render(renderer, scene, camera, width, height) {
+      if (!rt || rt.width !== width || rt.height !== height) {
+        rt?.dispose();
+        rt = new THREE.WebGLRenderTarget(width, height, {
+          type: THREE.FloatType,
+          format: THREE.RGBAFormat,
+          depthBuffer: true,
+        });
+      }
+
+      const saved = new Map<THREE.Mesh, THREE.Material | THREE.Material[]>();
+      scene.traverseVisible(obj => {
+        if (!(obj instanceof THREE.Mesh)) return;
+        saved.set(obj, obj.material);
+        obj.material = limbMats.get(obj) ?? occluderMat;
+      });
+
+      const prevTarget = renderer.getRenderTarget();
+      const prevClearColor = new THREE.Color();
+      const prevClearAlpha = renderer.getClearAlpha();
+      renderer.getClearColor(prevClearColor);
+      renderer.setClearColor(0x000000, 0);
+
+      const raw = new Float32Array(width * height * 4);
+      renderer.setRenderTarget(rt);
+      renderer.clear();
+      renderer.render(scene, camera);
+      renderer.readRenderTargetPixels(rt, 0, 0, width, height, raw);
+
+      renderer.setRenderTarget(prevTarget);
+      renderer.setClearColor(prevClearColor, prevClearAlpha);
+      saved.forEach((mat, mesh) => { mesh.material = mat; });
+
+      // WebGL readback is bottom-left origin; flip Y to top-left like the color frames
+      const ids = new Uint16Array(width * height);
+      const depth = new Float32Array(width * height);
+      for (let y = 0; y < height; y++) {
+        for (let x = 0; x < width; x++) {
+          const src = ((height - 1 - y) * width + x) * 4;
+          const dst = y * width + x;
+          const covered = raw[src + 3]! > 0;
+          ids[dst] = covered ? Math.round(raw[src]!) : 0;
+          depth[dst] = covered ? raw[src + 1]! : Infinity;
+        }
+      }
+      return { ids, depth, width, height };
+    },
+
+    dispose() {
+      rt?.dispose();
+      mats.forEach(m => m.dispose());
+    },
+  };
+}
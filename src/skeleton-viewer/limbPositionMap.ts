@@ -1,22 +1,59 @@
 import * as THREE from "three";
+import { encodePNG } from "./pngEncoder";
+import { encodeEXR } from "./exrEncoder";
+import { mirroredLimbIds } from "./limbIdPass";
+import { canvasBlob, jsonBlob, saveExport, type ExportArtifact, type ExportInfo, type ExportResult } from "./exportSink";
 
 export interface PositionMapBounds {
   min: [number, number, number]; // world-space XYZ minimum (metres)
   max: [number, number, number]; // world-space XYZ maximum (metres)
 }
 
-export interface PositionMapResult {
+/** Which views to capture besides the always-present front and back. */
+export interface PositionMapViewConfig {
+  sides: boolean;     // left (-X) and right (+X)
+  mirrorSides: boolean; // left drawn as the mirrored right view (symmetric characters)
+  topBottom: boolean; // top (+Y) and bottom (-Y)
+  octahedral: number; // N×N octahedral impostor directions; 0 = off
+}
+
+export const DEFAULT_POSITION_MAP_VIEWS: PositionMapViewConfig = {
+  sides: false,
+  mirrorSides: false,
+  topBottom: false,
+  octahedral: 0,
+};
+
+export interface PositionMapView {
+  /** "front", "back", "left", "right", "top", "bottom" or "octa_<row>_<col>". */
+  name: string;
   /**
    * Float32Array[width * height * 4]: [worldX, worldY, worldZ, limbId+1] per pixel,
    * top-left origin, row-major. limbId+1 == 0 means background (no limb).
    * limbId is an index into limbNames[].
    */
-  front: Float32Array;
-  back: Float32Array;
+  data: Float32Array;
+}
+
+/** Camera that produced a view — column-major matrices (THREE.Matrix4.elements). */
+export interface PositionMapCamera {
+  name: string;
+  direction: [number, number, number]; // unit vector from the bounds center toward the camera
+  viewMatrix: number[];
+  projectionMatrix: number[];
+}
+
+export interface PositionMapResult {
+  front: Float32Array; // = views[0].data
+  back: Float32Array;  // = views[1].data
+  views: PositionMapView[];
+  cameras: PositionMapCamera[];
+  octahedral: number; // N of the octahedral grid (0 = none)
   limbNames: string[];
   bounds: PositionMapBounds;
   width: number;
   height: number;
+  mirrors: Record<string, string>; // view → the view it was mirrored from
 }
 
 const VERT = /* glsl */ `
@@ -35,21 +72,17 @@ const FRAG = /* glsl */ `
   }
 `;
 
-/**
- * Generates front and back orthographic position maps for a set of limb meshes.
- *
- * Each pixel stores the world-space 3D position of the nearest surface point
- * visible from that direction:
- *   front = surfaces facing the front camera (max-Z side)
- *   back  = surfaces facing the back camera (min-Z side)
- *
- * Uses a proxy scene so the original scene is untouched.
- */
-export function generatePositionMaps(
-  renderer: THREE.WebGLRenderer,
-  limbMeshes: Map<string, THREE.Mesh[]>,
-  resolution = 64,
-): PositionMapResult {
+interface ProxyScene {
+  scene: THREE.Scene;
+  /** Each proxy paired with the live limb mesh whose world matrix it mirrors. */
+  pairs: { proxy: THREE.Mesh; mesh: THREE.Mesh }[];
+  limbNames: string[];
+  dispose(): void;
+}
+
+// Build a proxy scene: each limb mesh shares geometry but gets a
+// position-encoding ShaderMaterial with its world matrix baked in.
+function buildProxyScene(limbMeshes: Map<string, THREE.Mesh[]>): ProxyScene {
   const limbNames: string[] = [];
   const limbIdMap = new Map<string, number>();
   limbMeshes.forEach((_, name) => {
@@ -57,10 +90,9 @@ export function generatePositionMaps(
     limbNames.push(name);
   });
 
-  // Build a proxy scene: each limb mesh shares geometry but gets a
-  // position-encoding ShaderMaterial with its world matrix baked in.
-  const proxyScene = new THREE.Scene();
+  const scene = new THREE.Scene();
   const tempMats: THREE.ShaderMaterial[] = [];
+  const pairs: ProxyScene["pairs"] = [];
 
   limbMeshes.forEach((meshes, name) => {
     const id = limbIdMap.get(name)!;
@@ -72,41 +104,107 @@ export function generatePositionMaps(
     tempMats.push(mat);
 
     meshes.forEach(mesh => {
-      mesh.updateWorldMatrix(true, false);
       const proxy = new THREE.Mesh(mesh.geometry, mat);
       // matrixAutoUpdate=false means Three.js uses proxy.matrix directly.
       // As a root-level object, matrixWorld = matrix = mesh.matrixWorld.
       proxy.matrixAutoUpdate = false;
-      proxy.matrix.copy(mesh.matrixWorld);
-      proxy.matrixWorldNeedsUpdate = true;
-      proxyScene.add(proxy);
+      scene.add(proxy);
+      pairs.push({ proxy, mesh });
     });
   });
 
-  // Compute world-space bounding box from proxy matrices + geometry bounds
-  const box = new THREE.Box3();
-  proxyScene.children.forEach(obj => {
-    if (!(obj instanceof THREE.Mesh)) return;
-    obj.geometry.computeBoundingBox();
-    const gb = obj.geometry.boundingBox!.clone().applyMatrix4(obj.matrix);
-    box.union(gb);
+  return { scene, pairs, limbNames, dispose: () => tempMats.forEach(m => m.dispose()) };
+}
+
+/** Copies the current pose of every live limb mesh onto its proxy. */
+function syncProxies(proxies: ProxyScene): void {
+  proxies.pairs.forEach(({ proxy, mesh }) => {
+    mesh.updateWorldMatrix(true, false);
+    proxy.matrix.copy(mesh.matrixWorld);
+    proxy.matrixWorldNeedsUpdate = true;
+  });
+}
+
+// World-space bounding box from proxy matrices + geometry bounds
+function proxyBounds(proxies: ProxyScene, box = new THREE.Box3()): THREE.Box3 {
+  proxies.pairs.forEach(({ proxy }) => {
+    if (!proxy.geometry.boundingBox) proxy.geometry.computeBoundingBox();
+    box.union(proxy.geometry.boundingBox!.clone().applyMatrix4(proxy.matrix));
   });
+  return box;
+}
 
-  const center = box.getCenter(new THREE.Vector3());
-  const size = box.getSize(new THREE.Vector3());
-  const pad = 0.05;
+interface ViewSpec {
+  name: string;
+  dir: THREE.Vector3; // from the bounds center toward the camera
+  up: THREE.Vector3;
+}
 
-  const hw = size.x / 2 + pad;
-  const hh = size.y / 2 + pad;
-  const dz = size.z / 2 + pad;
-  const camDist = dz + 1;
+// Front/back first (their order is part of the result contract), then extras
+function viewSpecs(config: PositionMapViewConfig): ViewSpec[] {
+  const Y = new THREE.Vector3(0, 1, 0);
+  const specs: ViewSpec[] = [
+    { name: "front", dir: new THREE.Vector3(0, 0, 1), up: Y },
+    { name: "back", dir: new THREE.Vector3(0, 0, -1), up: Y },
+  ];
+  if (config.sides) {
+    specs.push({ name: "left", dir: new THREE.Vector3(-1, 0, 0), up: Y });
+    specs.push({ name: "right", dir: new THREE.Vector3(1, 0, 0), up: Y });
+  }
+  if (config.topBottom) {
+    // Looking straight down/up, image-up points to the character's back (-Z) / front (+Z)
+    specs.push({ name: "top", dir: new THREE.Vector3(0, 1, 0), up: new THREE.Vector3(0, 0, -1) });
+    specs.push({ name: "bottom", dir: new THREE.Vector3(0, -1, 0), up: new THREE.Vector3(0, 0, 1) });
+  }
+  const n = Math.floor(config.octahedral);
+  for (let row = 0; row < n; row++) {
+    for (let col = 0; col < n; col++) {
+      const dir = octahedralDirection((col + 0.5) / n, (row + 0.5) / n);
+      // Near the poles the world up is degenerate — fall back to -Z like the top view
+      const up = Math.abs(dir.y) > 0.999 ? new THREE.Vector3(0, 0, -Math.sign(dir.y)) : Y;
+      specs.push({ name: `octa_${row}_${col}`, dir, up });
+    }
+  }
+  return specs;
+}
 
-  const cam = new THREE.OrthographicCamera(
-    center.x - hw, center.x + hw,
-    center.y + hh, center.y - hh,
-    camDist - dz - 0.01,
-    camDist + dz + 0.01,
-  );
+/**
+ * Full-sphere octahedral mapping with +Y at the grid center: (u, v) in [0,1]²
+ * → unit direction. Cell (row, col) of an N×N impostor grid uses the cell center.
+ */
+export function octahedralDirection(u: number, v: number): THREE.Vector3 {
+  let x = u * 2 - 1;
+  let z = v * 2 - 1;
+  const y = 1 - Math.abs(x) - Math.abs(z);
+  if (y < 0) {
+    // Lower hemisphere folds over the diamond's edges
+    const fx = (1 - Math.abs(z)) * Math.sign(x || 1);
+    const fz = (1 - Math.abs(x)) * Math.sign(z || 1);
+    x = fx;
+    z = fz;
+  }
+  return new THREE.Vector3(x, y, z).normalize();
+}
+
+/**
+ * Renders one orthographic view per spec of the proxy scene, framed on `box`
+ * (the box's extents projected onto each camera's axes). Returns top-left-origin
+ * Float32 maps plus the camera matrices that produced them.
+ */
+function renderViews(
+  renderer: THREE.WebGLRenderer,
+  proxies: ProxyScene,
+  box: THREE.Box3,
+  resolution: number,
+  specs: ViewSpec[],
+): { views: PositionMapView[]; cameras: PositionMapCamera[] } {
+  const center = box.getCenter(new THREE.Vector3());
+  const corners = [0, 1, 2, 3, 4, 5, 6, 7].map(i => new THREE.Vector3(
+    i & 1 ? box.max.x : box.min.x,
+    i & 2 ? box.max.y : box.min.y,
+    i & 4 ? box.max.z : box.min.z,
+  ).sub(center));
+  const pad = 0.05;
 
   const rt = new THREE.WebGLRenderTarget(resolution, resolution, {
     type: THREE.FloatType,
@@ -120,43 +218,224 @@ export function generatePositionMaps(
   renderer.getClearColor(prevClearColor);
   renderer.setClearColor(0x000000, 0);
 
-  const rawFront = new Float32Array(resolution * resolution * 4);
-  const rawBack = new Float32Array(resolution * resolution * 4);
-
-  // Front: camera at +Z looking toward -Z; depth keeps max-Z (front-facing) surface
-  cam.position.set(center.x, center.y, center.z + camDist);
-  cam.lookAt(center);
-  renderer.setRenderTarget(rt);
-  renderer.clear();
-  renderer.render(proxyScene, cam);
-  renderer.readRenderTargetPixels(rt, 0, 0, resolution, resolution, rawFront);
-
-  // Back: camera at -Z looking toward +Z; depth keeps min-Z (back-facing) surface
-  cam.position.set(center.x, center.y, center.z - camDist);
-  cam.lookAt(center);
-  renderer.setRenderTarget(rt);
-  renderer.clear();
-  renderer.render(proxyScene, cam);
-  renderer.readRenderTargetPixels(rt, 0, 0, resolution, resolution, rawBack);
+  const cam = new THREE.OrthographicCamera();
+  const right = new THREE.Vector3();
+  const up = new THREE.Vector3();
+  const views: PositionMapView[] = [];
+  const cameras: PositionMapCamera[] = [];
+
+  specs.forEach(spec => {
+    // Orient first, then size the frustum from the box extents in camera space.
+    // For front/back this is exactly the box's X/Y half-size and Z depth.
+    cam.up.copy(spec.up);
+    cam.position.copy(center).add(spec.dir);
+    cam.lookAt(center);
+    cam.updateMatrixWorld();
+    cam.matrixWorld.extractBasis(right, up, new THREE.Vector3());
+
+    let hw = 0, hh = 0, dz = 0;
+    corners.forEach(c => {
+      hw = Math.max(hw, Math.abs(c.dot(right)));
+      hh = Math.max(hh, Math.abs(c.dot(up)));
+      dz = Math.max(dz, Math.abs(c.dot(spec.dir)));
+    });
+    hw += pad; hh += pad; dz += pad;
+    const camDist = dz + 1;
+
+    cam.left = -hw; cam.right = hw;
+    cam.top = hh; cam.bottom = -hh;
+    cam.near = camDist - dz - 0.01;
+    cam.far = camDist + dz + 0.01;
+    cam.updateProjectionMatrix();
+    cam.position.copy(center).addScaledVector(spec.dir, camDist);
+    cam.updateMatrixWorld();
+
+    // Depth keeps the surface nearest this camera
+    const raw = new Float32Array(resolution * resolution * 4);
+    renderer.setRenderTarget(rt);
+    renderer.clear();
+    renderer.render(proxies.scene, cam);
+    renderer.readRenderTargetPixels(rt, 0, 0, resolution, resolution, raw);
+
+    // WebGL readback is bottom-left origin; flip Y to match top-left (canvas) convention
+    views.push({ name: spec.name, data: flipY(raw, resolution, resolution) });
+    cameras.push({
+      name: spec.name,
+      direction: [spec.dir.x, spec.dir.y, spec.dir.z],
+      viewMatrix: [...cam.matrixWorldInverse.elements],
+      projectionMatrix: [...cam.projectionMatrix.elements],
+    });
+  });
 
   renderer.setRenderTarget(prevTarget);
   renderer.setClearColor(prevClearColor, prevClearAlpha);
   rt.dispose();
-  tempMats.forEach(m => m.dispose());
 
-  // WebGL readback is bottom-left origin; flip Y to match top-left (canvas) convention
-  const bounds: PositionMapBounds = {
+  return { views, cameras };
+}
+
+function toBounds(box: THREE.Box3): PositionMapBounds {
+  return {
     min: [box.min.x, box.min.y, box.min.z],
     max: [box.max.x, box.max.y, box.max.z],
   };
+}
+
+const mirrorsSides = (config: PositionMapViewConfig) => config.sides && config.mirrorSides;
+
+// Mirroring is about x = 0, so the bounds are widened to be symmetric there —
+// both side cameras then frame the same extents and decode the same range
+function symmetrizeX(box: THREE.Box3): void {
+  const half = Math.max(Math.abs(box.min.x), Math.abs(box.max.x));
+  box.min.x = -half;
+  box.max.x = half;
+}
+
+/**
+ * Replaces the left view with the right one mirrored: flipped horizontally,
+ * world X negated and left/right limbs swapped. Exact for a character that
+ * is symmetric about x = 0; hides small asymmetries in the pose otherwise.
+ */
+function mirrorSideViews(views: PositionMapView[], limbNames: string[], width: number): void {
+  const left = views.find(v => v.name === "left");
+  const right = views.find(v => v.name === "right");
+  if (!left || !right) return;
+
+  const twins = mirroredLimbIds(limbNames);
+  const src = right.data;
+  const out = new Float32Array(src.length);
+  const height = src.length / (width * 4);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const i = (y * width + x) * 4;
+      const id = src[i + 3]!;
+      if (id === 0) continue;
+      const o = (y * width + (width - 1 - x)) * 4;
+      out[o] = -src[i]!;
+      out[o + 1] = src[i + 1]!;
+      out[o + 2] = src[i + 2]!;
+      out[o + 3] = twins[id - 1]! + 1;
+    }
+  }
+  left.data = out;
+}
+
+/**
+ * Generates orthographic position maps for a set of limb meshes: front and
+ * back always, plus the side, top/bottom and octahedral views in `viewConfig`.
+ *
+ * Each pixel stores the world-space 3D position of the nearest surface point
+ * visible from that direction:
+ *   front = surfaces facing the front camera (max-Z side)
+ *   back  = surfaces facing the back camera (min-Z side)
+ *
+ * Uses a proxy scene so the original scene is untouched.
+ */
+export function generatePositionMaps(
+  renderer: THREE.WebGLRenderer,
+  limbMeshes: Map<string, THREE.Mesh[]>,
+  resolution = 64,
+  viewConfig: PositionMapViewConfig = DEFAULT_POSITION_MAP_VIEWS,
+): PositionMapResult {
+  const proxies = buildProxyScene(limbMeshes);
+  syncProxies(proxies);
+  const box = proxyBounds(proxies);
+  const mirror = mirrorsSides(viewConfig);
+  if (mirror) symmetrizeX(box);
+  const { views, cameras } = renderViews(renderer, proxies, box, resolution, viewSpecs(viewConfig));
+  if (mirror) mirrorSideViews(views, proxies.limbNames, resolution);
+  proxies.dispose();
 
   return {
-    front: flipY(rawFront, resolution, resolution),
-    back: flipY(rawBack, resolution, resolution),
-    limbNames,
-    bounds,
+    front: views[0]!.data,
+    back: views[1]!.data,
+    views,
+    cameras,
+    octahedral: Math.floor(viewConfig.octahedral),
+    limbNames: proxies.limbNames,
+    bounds: toBounds(box),
+    width: resolution,
+    height: resolution,
+    mirrors: mirror ? { left: "right" } : {},
+  };
+}
+
+export interface PositionMapSequence {
+  /** Per sampled frame, the views in `cameras` order (front, back, extras). */
+  frames: PositionMapView[][];
+  /** Shared by every frame. */
+  cameras: PositionMapCamera[];
+  octahedral: number;
+  limbNames: string[];
+  /** Shared by every frame, so one decode works across the whole cycle. */
+  bounds: PositionMapBounds;
+  width: number;
+  height: number;
+  frameDuration: number; // seconds
+  mirrors: Record<string, string>; // view → the view it was mirrored from
+}
+
+/**
+ * Position maps for `frameCount` evenly spaced times of `clip` — the same
+ * sample times exportSpritesheet uses. All poses are captured first so the
+ * bounds (and therefore the camera and decode range) are shared by every frame.
+ */
+export function generatePositionMapSequence(
+  renderer: THREE.WebGLRenderer,
+  limbMeshes: Map<string, THREE.Mesh[]>,
+  mixer: THREE.AnimationMixer,
+  clip: THREE.AnimationClip,
+  frameCount = 8,
+  resolution = 64,
+  viewConfig: PositionMapViewConfig = DEFAULT_POSITION_MAP_VIEWS,
+): PositionMapSequence {
+  const action = mixer.clipAction(clip);
+  const wasPaused = action.paused;
+  const savedTime = action.time;
+  action.paused = true;
+
+  const proxies = buildProxyScene(limbMeshes);
+  const box = new THREE.Box3();
+  const poses: THREE.Matrix4[][] = [];
+
+  for (let fi = 0; fi < frameCount; fi++) {
+    action.time = (fi / frameCount) * clip.duration;
+    mixer.update(0);
+    syncProxies(proxies);
+    proxyBounds(proxies, box);
+    poses.push(proxies.pairs.map(({ proxy }) => proxy.matrix.clone()));
+  }
+
+  action.time = savedTime;
+  action.paused = wasPaused;
+  mixer.update(0);
+
+  const mirror = mirrorsSides(viewConfig);
+  if (mirror) symmetrizeX(box);
+  const specs = viewSpecs(viewConfig);
+  let cameras: PositionMapCamera[] = [];
+  const frames = poses.map(pose => {
+    proxies.pairs.forEach(({ proxy }, i) => {
+      proxy.matrix.copy(pose[i]!);
+      proxy.matrixWorldNeedsUpdate = true;
+    });
+    const rendered = renderViews(renderer, proxies, box, resolution, specs);
+    cameras = rendered.cameras; // identical every frame — bounds are shared
+    if (mirror) mirrorSideViews(rendered.views, proxies.limbNames, resolution);
+    return rendered.views;
+  });
+  proxies.dispose();
+
+  return {
+    frames,
+    cameras,
+    octahedral: Math.floor(viewConfig.octahedral),
+    limbNames: proxies.limbNames,
+    bounds: toBounds(box),
     width: resolution,
     height: resolution,
+    frameDuration: clip.duration / frameCount,
+    mirrors: mirror ? { left: "right" } : {},
   };
 }
 
@@ -170,7 +449,9 @@ function flipY(data: Float32Array, w: number, h: number): Float32Array {
 }
 
 /**
- * Downloads two PNGs (front + back) and a metadata JSON.
+ * Saves one PNG per view (front, back, then any side / top / bottom views),
+ * the octahedral views packed into one N×N atlas, and a metadata JSON holding
+ * every view's camera matrices.
  *
  * PNG channel layout (rgba8unorm, as used in WebGPU):
  *   R = worldX normalized to [0,1] within bounds
@@ -183,55 +464,275 @@ function flipY(data: Float32Array, w: number, h: number): Float32Array {
  *   let limbId = i32(s.a * 255.0 + 0.5) - 1;          // -1 = background
  *   let worldPos = s.rgb * (boundsMax - boundsMin) + boundsMin;
  */
-export function downloadPositionMapsAsPNG(result: PositionMapResult): void {
-  const { front, back, bounds, width, height, limbNames } = result;
-  const [xMin, yMin, zMin] = bounds.min;
-  const [xMax, yMax, zMax] = bounds.max;
-  const xRange = xMax - xMin || 1;
-  const yRange = yMax - yMin || 1;
-  const zRange = zMax - zMin || 1;
+export function exportPositionMapsAsPNG(result: PositionMapResult, name: string, info: ExportInfo): Promise<ExportResult> {
+  return exportPositionMaps(result, "png8", name, info);
+}
 
-  function toCanvas(data: Float32Array): HTMLCanvasElement {
-    const canvas = document.createElement("canvas");
-    canvas.width = width;
-    canvas.height = height;
-    const ctx = canvas.getContext("2d")!;
-    const img = ctx.createImageData(width, height);
-    const { data: px } = img;
-    for (let i = 0; i < width * height; i++) {
-      const i4 = i * 4;
-      px[i4 + 0] = norm(data[i4 + 0], xMin, xRange);
-      px[i4 + 1] = norm(data[i4 + 1], yMin, yRange);
-      px[i4 + 2] = norm(data[i4 + 2], zMin, zRange);
-      // data[i4+3] is limbId+1 as a float; round to nearest integer for alpha byte
-      px[i4 + 3] = Math.round(data[i4 + 3]);
-    }
-    ctx.putImageData(img, 0, 0);
-    return canvas;
+/**
+ * Saves a sequence as one atlas PNG plus metadata JSON.
+ *
+ * Atlas layout: column f = frame f; row r = view r in `cameras` order
+ * (row 0 = front, row 1 = back, then extras). Each cell is width × height and
+ * uses the same channel encoding as exportPositionMapsAsPNG, normalized to
+ * the ONE bounds shared by all frames.
+ *
+ * Sample frame f in WGSL:
+ *   let cell = vec2f(f32(frame), f32(view));            // view: 0 = front, 1 = back, …
+ *   let s = textureSample(posAtlas, samp, (cell + uv) / vec2f(f32(frameCount), f32(viewCount)));
+ *   let limbId = i32(s.a * 255.0 + 0.5) - 1;            // -1 = background
+ *   let worldPos = s.rgb * (boundsMax - boundsMin) + boundsMin;
+ */
+export function exportPositionMapSequenceAsPNG(seq: PositionMapSequence, name: string, info: ExportInfo): Promise<ExportResult> {
+  return exportPositionMapSequence(seq, "png8", name, info);
+}
+
+export type PositionMapFormat = "png8" | "png16" | "float32" | "exr";
+
+export const POSITION_MAP_FORMATS: { value: PositionMapFormat; label: string }[] = [
+  { value: "png8", label: "PNG 8-bit" },
+  { value: "png16", label: "PNG 16-bit" },
+  { value: "float32", label: "Float32 .bin" },
+  { value: "exr", label: "OpenEXR" },
+];
+
+interface PositionImage {
+  name: string;
+  data: Float32Array;
+  width: number;
+  height: number;
+}
+
+/**
+ * Saves a single-pose result in `format`; file names start with `name`.
+ *
+ *   png8    — see exportPositionMapsAsPNG (8-bit, bounds-normalized)
+ *   png16   — rgba16unorm PNGs: RGB normalized to bounds over 0..65535,
+ *             A = limbId+1 as an integer (WGSL: i32(s.a * 65535.0 + 0.5) - 1)
+ *   exr     — 32-bit float EXRs: RGB = raw world XYZ (metres), A = limbId+1
+ *   float32 — one .bin holding every view: see encodeFloatBinary()
+ */
+export async function exportPositionMaps(
+  result: PositionMapResult,
+  format: PositionMapFormat,
+  name: string,
+  info: ExportInfo,
+): Promise<ExportResult> {
+  return saveExport(info, await encodePositionMaps(result, format, name));
+}
+
+/** The files exportPositionMaps saves. */
+export async function encodePositionMaps(
+  result: PositionMapResult,
+  format: PositionMapFormat,
+  name: string,
+): Promise<ExportArtifact[]> {
+  const { views, cameras, octahedral, bounds, width, height, limbNames } = result;
+  const meta = {
+    limbNames,
+    bounds,
+    encoding: format,
+    cameras,
+    octahedral: octahedralLayout(octahedral),
+    ...mirrorMeta(result.mirrors),
+  };
+
+  if (format === "float32") {
+    const header = { ...meta, width, height, views: views.map(v => v.name) };
+    return [{ name: `${name}-position-map.bin`, data: encodeFloatBinary(header, views.map(v => v.data)) }];
   }
 
-  function triggerDownload(href: string, filename: string, delay: number): void {
-    setTimeout(() => {
-      const a = document.createElement("a");
-      a.href = href;
-      a.download = filename;
-      a.click();
-    }, delay);
+  const images: PositionImage[] = views
+    .filter(v => !v.name.startsWith("octa_"))
+    .map(v => ({ name: `${name}-position-map-${v.name}`, data: v.data, width, height }));
+  if (octahedral > 0) {
+    const octa = views.filter(v => v.name.startsWith("octa_")).map(v => v.data);
+    images.push({
+      name: `${name}-position-map-octahedral`,
+      data: packGrid(octa, octahedral, octahedral, width, height),
+      width: octahedral * width,
+      height: octahedral * height,
+    });
   }
 
-  triggerDownload(toCanvas(front).toDataURL("image/png"), "position-map-front.png", 0);
-  triggerDownload(toCanvas(back).toDataURL("image/png"), "position-map-back.png", 150);
+  const artifacts = await encodeImages(images, format, bounds);
+  artifacts.push({ name: `${name}-position-map-meta.json`, data: jsonBlob(meta) });
+  return artifacts;
+}
+
+/** Sequence counterpart of exportPositionMaps — one atlas, laid out as in exportPositionMapSequenceAsPNG. */
+export async function exportPositionMapSequence(
+  seq: PositionMapSequence,
+  format: PositionMapFormat,
+  name: string,
+  info: ExportInfo,
+): Promise<ExportResult> {
+  return saveExport(info, await encodePositionMapSequence(seq, format, name));
+}
 
+/** The files exportPositionMapSequence saves. */
+export async function encodePositionMapSequence(
+  seq: PositionMapSequence,
+  format: PositionMapFormat,
+  name: string,
+): Promise<ExportArtifact[]> {
+  const { frames, cameras, octahedral, bounds, width, height, limbNames } = seq;
+  const viewNames = cameras.map(c => c.name);
   const meta = {
     limbNames,
     bounds,
-    // Channel layout: R=worldX, G=worldY, B=worldZ (normalized to bounds), A=limbId+1 (0=bg)
+    encoding: format,
+    cameras,
+    octahedral: octahedralLayout(octahedral),
+    frameCount: frames.length,
+    frameDuration: seq.frameDuration,
+    ...mirrorMeta(seq.mirrors),
   };
-  const metaUrl = URL.createObjectURL(
-    new Blob([JSON.stringify(meta, null, 2)], { type: "application/json" }),
-  );
-  triggerDownload(metaUrl, "position-map-meta.json", 300);
-  setTimeout(() => URL.revokeObjectURL(metaUrl), 1000);
+
+  if (format === "float32") {
+    // Frame-major: every view of frame 0, then every view of frame 1, …
+    const header = { ...meta, width, height, views: viewNames };
+    const data = encodeFloatBinary(header, frames.flatMap(f => f.map(v => v.data)));
+    return [{ name: `${name}-position-map-sequence.bin`, data }];
+  }
+
+  // Cell (column = frame, row = view) — packGrid is row-major, so order view-major
+  const cells = viewNames.flatMap((_, vi) => frames.map(f => f[vi]!.data));
+  const atlas: PositionImage = {
+    name: `${name}-position-map-atlas`,
+    data: packGrid(cells, frames.length, viewNames.length, width, height),
+    width: frames.length * width,
+    height: viewNames.length * height,
+  };
+  const artifacts = await encodeImages([atlas], format, bounds);
+  const layout = { columns: frames.length, rows: viewNames, cellWidth: width, cellHeight: height };
+  artifacts.push({ name: `${name}-position-map-atlas-meta.json`, data: jsonBlob({ ...meta, layout }) });
+  return artifacts;
+}
+
+// Mirrored views are flipped copies: x negated, left/right limb ids swapped
+function mirrorMeta(mirrors: Record<string, string>) {
+  return Object.keys(mirrors).length > 0 ? { mirrors, mirrorPlane: "x = 0" } : {};
+}
+
+// Octahedral views are named octa_<row>_<col>; cell (row, col) sits at that grid position
+function octahedralLayout(n: number) {
+  return n > 0 ? { gridSize: n, mapping: "full-sphere, +Y at grid center", cellOrder: "octa_<row>_<col>" } : null;
+}
+
+/** Encodes `images` in `format`, one file each. */
+async function encodeImages(images: PositionImage[], format: Exclude<PositionMapFormat, "float32">, bounds: PositionMapBounds): Promise<ExportArtifact[]> {
+  const artifacts: ExportArtifact[] = [];
+  for (const img of images) {
+    if (format === "png8") {
+      const canvas = document.createElement("canvas");
+      canvas.width = img.width;
+      canvas.height = img.height;
+      canvas.getContext("2d")!.putImageData(encodePositionPixels(img.data, bounds, img.width, img.height), 0, 0);
+      artifacts.push({ name: `${img.name}.png`, data: await canvasBlob(canvas) });
+    } else {
+      const ext = format === "exr" ? "exr" : "png";
+      artifacts.push({ name: `${img.name}.${ext}`, data: await encodeHighPrecision(img.data, bounds, img.width, img.height, format) });
+    }
+  }
+  return artifacts;
+}
+
+async function encodeHighPrecision(
+  data: Float32Array,
+  bounds: PositionMapBounds,
+  width: number,
+  height: number,
+  format: "png16" | "exr",
+): Promise<Blob> {
+  return format === "exr"
+    ? encodeEXR(data, width, height)
+    : encodePNG(encodePositionPixels16(data, bounds, width, height), width, height);
+}
+
+// Packs equally sized float maps row-major into a columns × rows grid
+function packGrid(cells: Float32Array[], columns: number, rows: number, width: number, height: number): Float32Array {
+  const gridW = columns * width;
+  const out = new Float32Array(gridW * rows * height * 4);
+  cells.forEach((data, i) => {
+    const cx = (i % columns) * width;
+    const cy = Math.floor(i / columns) * height;
+    for (let y = 0; y < height; y++) {
+      const src = y * width * 4;
+      out.set(data.subarray(src, src + width * 4), ((cy + y) * gridW + cx) * 4);
+    }
+  });
+  return out;
+}
+
+/**
+ * Raw little-endian float32 container:
+ *   bytes 0..3   uint32 LE — JSON header length N (header is space-padded so
+ *                the float data starts 4-byte aligned)
+ *   bytes 4..    UTF-8 JSON header (width, height, bounds, limbNames, views, …)
+ *   then         views back to back, each width*height*4 float32
+ *                [worldX, worldY, worldZ, limbId+1], top-left origin
+ */
+function encodeFloatBinary(header: object, views: Float32Array[]): Blob {
+  let json = JSON.stringify({ ...header, format: "float32le", channels: ["x", "y", "z", "limbId+1"] });
+  while ((4 + json.length) % 4 !== 0) json += " ";
+  const headerBytes = new TextEncoder().encode(json);
+  const prefix = new Uint8Array(4);
+  new DataView(prefix.buffer).setUint32(0, headerBytes.length, true);
+
+  // Float32Array memory is platform-endian; every browser platform is little-endian
+  return new Blob([prefix, headerBytes, ...views.map(v => new Float32Array(v))], { type: "application/octet-stream" });
+}
+
+// rgba16 encoding: RGB = world XYZ normalized to bounds over 0..65535, A = limbId+1
+function encodePositionPixels16(
+  data: Float32Array,
+  bounds: PositionMapBounds,
+  width: number,
+  height: number,
+): Uint16Array {
+  const [xMin, yMin, zMin] = bounds.min;
+  const [xMax, yMax, zMax] = bounds.max;
+  const xRange = xMax - xMin || 1;
+  const yRange = yMax - yMin || 1;
+  const zRange = zMax - zMin || 1;
+  const norm16 = (v: number, min: number, range: number) =>
+    Math.max(0, Math.min(65535, Math.round(((v - min) / range) * 65535)));
+
+  const px = new Uint16Array(width * height * 4);
+  for (let i = 0; i < width * height; i++) {
+    const i4 = i * 4;
+    px[i4 + 0] = norm16(data[i4 + 0]!, xMin, xRange);
+    px[i4 + 1] = norm16(data[i4 + 1]!, yMin, yRange);
+    px[i4 + 2] = norm16(data[i4 + 2]!, zMin, zRange);
+    px[i4 + 3] = Math.round(data[i4 + 3]!);
+  }
+  return px;
+}
+
+// rgba8 encoding: RGB = world XYZ normalized to bounds, A = limbId+1
+function encodePositionPixels(
+  data: Float32Array,
+  bounds: PositionMapBounds,
+  width: number,
+  height: number,
+): ImageData {
+  const [xMin, yMin, zMin] = bounds.min;
+  const [xMax, yMax, zMax] = bounds.max;
+  const xRange = xMax - xMin || 1;
+  const yRange = yMax - yMin || 1;
+  const zRange = zMax - zMin || 1;
+
+  const img = new ImageData(width, height);
+  const { data: px } = img;
+  for (let i = 0; i < width * height; i++) {
+    const i4 = i * 4;
+    px[i4 + 0] = norm(data[i4 + 0]!, xMin, xRange);
+    px[i4 + 1] = norm(data[i4 + 1]!, yMin, yRange);
+    px[i4 + 2] = norm(data[i4 + 2]!, zMin, zRange);
+    // data[i4+3] is limbId+1 as a float; round to nearest integer for alpha byte
+    px[i4 + 3] = Math.round(data[i4 + 3]!);
+  }
+  return img;
 }
 
 function norm(v: number, min: number, range: number): number {
@@ -0,0 +1,56 @@
+// Preview-only ghosting of neighbouring export samples in PixelView.
+// Nothing here reaches the exported sheets.
+
+export interface OnionSkinSettings {
+  enabled: boolean;
+  before: number;     // ghosts drawn for earlier samples
+  after: number;      // ghosts drawn for later samples
+  opacity: number;    // 0–1, for the nearest ghost; farther ghosts fade linearly
+  tintBefore: number; // 0xRRGGBB
+  tintAfter: number;
+  tintAmount: number; // 0 = original colors, 1 = flat tint
+}
+
+export const DEFAULT_ONION_SKIN: OnionSkinSettings = {
+  enabled: false,
+  before: 1,
+  after: 1,
+  opacity: 0.4,
+  tintBefore: 0xff4466,
+  tintAfter: 0x44ff88,
+  tintAmount: 0.6,
+};
+
+/** Sample times around `time`, farthest first so nearer ghosts draw on top. */
+export function ghostTimes(
+  time: number,
+  duration: number,
+  frameCount: number,
+  settings: OnionSkinSettings,
+): { time: number; side: "before" | "after"; distance: number }[] {
+  const step = duration / frameCount;
+  const wrap = (t: number) => ((t % duration) + duration) % duration;
+  const out: { time: number; side: "before" | "after"; distance: number }[] = [];
+  for (let k = Math.max(settings.before, settings.after); k >= 1; k--) {
+    if (k <= settings.before) out.push({ time: wrap(time - k * step), side: "before", distance: k });
+    if (k <= settings.after) out.push({ time: wrap(time + k * step), side: "after", distance: k });
+  }
+  return out;
+}
+
+/** Blends every pixel's color toward `tint` in place; alpha is left alone. */
+export function tintFrame(img: ImageData, tint: number, amount: number): void {
+  const r = tint >> 16, g = (tint >> 8) & 0xff, b = tint & 0xff;
+  const { data } = img;
+  for (let i = 0; i < data.length; i += 4) {
+    data[i] = data[i]! + (r - data[i]!) * amount;
+    data[i + 1] = data[i + 1]! + (g - data[i + 1]!) * amount;
+    data[i + 2] = data[i + 2]! + (b - data[i + 2]!) * amount;
+  }
+}
+
+/** Ghost opacity: `opacity` for the nearest sample, fading toward 0 with distance. */
+export function ghostAlpha(settings: OnionSkinSettings, side: "before" | "after", distance: number): number {
+  const count = side === "before" ? settings.before : settings.after;
+  return settings.opacity * (count - distance + 1) / count;
+}
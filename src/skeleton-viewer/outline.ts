@@ -0,0 +1,72 @@
+import type { LimbIdFrame } from "./limbIdPass";
+
+export type OutlineMode = "none" | "outer" | "outer-inner";
+
+export const OUTLINE_MODES: { value: OutlineMode; label: string }[] = [
+  { value: "none", label: "None" },
+  { value: "outer", label: "Outer" },
+  { value: "outer-inner", label: "Outer + limb edges" },
+];
+
+export interface OutlineSettings {
+  mode: OutlineMode;
+  color: number;     // 0xRRGGBB
+  thickness: number; // pixels
+}
+
+export const DEFAULT_OUTLINE: OutlineSettings = {
+  mode: "none",
+  color: 0x101018,
+  thickness: 1,
+};
+
+/**
+ * Draws a pixel outline in place. The outer outline grows the silhouette into
+ * transparent pixels. Limb edges use the id pass: a pixel is outlined when a
+ * DIFFERENT limb lies in front of it within `thickness`, so the line lands on
+ * the occluded limb and the front limb keeps its full shape.
+ */
+export function applyOutline(img: ImageData, settings: OutlineSettings, limbIds: LimbIdFrame | null): void {
+  if (settings.mode === "none") return;
+  const { data, width, height } = img;
+  const t = Math.max(1, Math.round(settings.thickness));
+  const r = settings.color >> 16, g = (settings.color >> 8) & 0xff, b = settings.color & 0xff;
+
+  // Snapshot coverage first so freshly painted outline pixels don't spread further
+  const solid = new Uint8Array(width * height);
+  for (let p = 0; p < solid.length; p++) solid[p] = data[p * 4 + 3]! > 0 ? 1 : 0;
+
+  // Diamond neighbourhood: thickness 1 = the 4 direct neighbours
+  const offsets: [number, number][] = [];
+  for (let dy = -t; dy <= t; dy++) {
+    for (let dx = -t; dx <= t; dx++) {
+      if ((dx || dy) && Math.abs(dx) + Math.abs(dy) <= t) offsets.push([dx, dy]);
+    }
+  }
+
+  const inner = settings.mode === "outer-inner" && limbIds !== null;
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const p = y * width + x;
+      let paint = false;
+
+      for (const [dx, dy] of offsets) {
+        const nx = x + dx, ny = y + dy;
+        if (nx < 0 || ny < 0 || nx >= width || ny >= height) continue;
+        const q = ny * width + nx;
+        if (!solid[q]) continue;
+        if (!solid[p]) { paint = true; break; }
+        if (inner && limbIds.ids[q] !== limbIds.ids[p] && limbIds.depth[q]! < limbIds.depth[p]!) {
+          paint = true;
+          break;
+        }
+      }
+
+      if (paint) {
+        const i = p * 4;
+        data[i] = r; data[i + 1] = g; data[i + 2] = b; data[i + 3] = 255;
+      }
+    }
+  }
+}
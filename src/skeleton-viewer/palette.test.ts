@@ -0,0 +1,40 @@
+import { describe, expect, test } from "bun:test";
+import { paletteToHex, parsePalette } from "./palette";
+
+describe("parsePalette", () => {
+  test("reads bare, #, 0x and $ prefixed hex lines", () => {
+    const text = "ff0000\n#00FF00\n0x0000ff\n$123456\n";
+    expect(parsePalette(text, "colors.hex")).toEqual([0xff0000, 0x00ff00, 0x0000ff, 0x123456]);
+  });
+
+  test("reads #RRGGBB .txt palettes and skips comments and blank lines", () => {
+    const text = "; paint.net palette\n# my palette\n\n#112233\r\n#445566  trailing name\n";
+    expect(parsePalette(text, "palette.txt")).toEqual([0x112233, 0x445566]);
+  });
+
+  test("ignores lines that aren't six hex digits", () => {
+    expect(parsePalette("fff\n#12345\nnot a color\n1234567\n", "x.hex")).toEqual([]);
+  });
+
+  test("reads GIMP palettes with # comments", () => {
+    const text = [
+      "GIMP Palette",
+      "Name: Test",
+      "Columns: 2",
+      "#",
+      "# 1 2 3 is a comment, not a color",
+      "255   0   0\tRed",
+      "  0 128 255\tBlue",
+    ].join("\n");
+    expect(parsePalette(text, "test.gpl")).toEqual([0xff0000, 0x0080ff]);
+  });
+
+  test("detects GIMP palettes by header without a file name", () => {
+    expect(parsePalette("GIMP Palette\n10 20 30 x\n")).toEqual([0x0a141e]);
+  });
+
+  test("round-trips through paletteToHex", () => {
+    const palette = [0x000000, 0x0a0b0c, 0xffffff];
+    expect(parsePalette(paletteToHex(palette), "out.hex")).toEqual(palette);
+  });
+});
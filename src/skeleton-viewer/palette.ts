@@ -0,0 +1,71 @@
+// Palettes are plain lists of 0xRRGGBB colors, the same encoding boneConfig.ts uses.
+export type Palette = number[];
+
+/**
+ * Parses a palette file. Supports Lospec-style `.hex` / `.txt` (one RRGGBB,
+ * #RRGGBB, 0xRRGGBB or $RRGGBB per line) and GIMP `.gpl` ("R G B  name" rows
+ * after a "GIMP Palette" header, `#` comments).
+ */
+export function parsePalette(text: string, fileName = ""): Palette {
+  const lines = text.split(/\r?\n/).map(l => l.trim());
+  const isGpl = /\.gpl$/i.test(fileName) || lines[0] === "GIMP Palette";
+
+  const colors: Palette = [];
+  for (const line of lines) {
+    if (!line || line.startsWith(";")) continue;
+    if (isGpl) {
+      const m = /^(\d+)\s+(\d+)\s+(\d+)/.exec(line);
+      if (m) colors.push((+m[1]! << 16) | (+m[2]! << 8) | +m[3]!);
+    } else {
+      // "#" lines that aren't a color are comments and simply don't match
+      const m = /^(?:0x|\$|#)?([0-9a-f]{6})\b/i.exec(line);
+      if (m) colors.push(parseInt(m[1]!, 16));
+    }
+  }
+  return colors;
+}
+
+export function paletteToHex(palette: Palette): string {
+  return palette.map(c => c.toString(16).padStart(6, "0")).join("\n") + "\n";
+}
+
+/**
+ * Median-cut palette extraction over the opaque pixels of `img`.
+ * Repeatedly splits the box with the widest channel range at its median.
+ */
+export function extractPalette(img: ImageData, size: number): Palette {
+  const { data } = img;
+  const pixels: number[][] = [];
+  for (let i = 0; i < data.length; i += 4) {
+    if (data[i + 3]! >= 128) pixels.push([data[i]!, data[i + 1]!, data[i + 2]!]);
+  }
+  if (pixels.length === 0) return [];
+
+  const boxes = [pixels];
+  while (boxes.length < size) {
+    let widest = -1;
+    let widestRange = 0;
+    let widestChannel = 0;
+    boxes.forEach((box, bi) => {
+      if (box.length < 2) return;
+      for (let c = 0; c < 3; c++) {
+        let lo = 255, hi = 0;
+        for (const p of box) { lo = Math.min(lo, p[c]!); hi = Math.max(hi, p[c]!); }
+        if (hi - lo > widestRange) { widestRange = hi - lo; widest = bi; widestChannel = c; }
+      }
+    });
+    if (widest < 0) break; // every box is a single color
+
+    const box = boxes[widest]!.sort((a, b) => a[widestChannel]! - b[widestChannel]!);
+    const mid = box.length >> 1;
+    boxes.splice(widest, 1, box.slice(0, mid), box.slice(mid));
+  }
+
+  const palette = boxes.map(box => {
+    let r = 0, g = 0, b = 0;
+    box.forEach(p => { r += p[0]!; g += p[1]!; b += p[2]!; });
+    const n = box.length;
+    return (Math.round(r / n) << 16) | (Math.round(g / n) << 8) | Math.round(b / n);
+  });
+  return [...new Set(palette)];
+}
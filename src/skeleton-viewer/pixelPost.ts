@@ -0,0 +1,127 @@
+import type { Palette } from "./palette";
+
+export type DitherMode = "none" | "ordered" | "floyd-steinberg";
+
+export const DITHER_MODES: { value: DitherMode; label: string }[] = [
+  { value: "none", label: "None" },
+  { value: "ordered", label: "Ordered (Bayer 4×4)" },
+  { value: "floyd-steinberg", label: "Floyd–Steinberg" },
+];
+
+export interface PixelPostSettings {
+  palette: Palette;      // empty = keep rendered colors
+  dither: DitherMode;
+  alphaThreshold: number; // 0-255; alpha at or above becomes 255, below becomes 0
+}
+
+export const DEFAULT_PIXEL_POST: PixelPostSettings = {
+  palette: [],
+  dither: "none",
+  alphaThreshold: 128,
+};
+
+// Bayer 4×4 threshold matrix, normalized to [-0.5, 0.5)
+const BAYER_4 = [0, 8, 2, 10, 12, 4, 14, 6, 3, 11, 1, 9, 15, 7, 13, 5].map(v => v / 16 - 0.5);
+// How far (in 0-255 channel units) ordered dithering may push a color
+const ORDERED_SPREAD = 48;
+
+/**
+ * Pixel-art post-process shared by PixelView and exportSpritesheet, applied
+ * in place: hard 0/255 alpha, then optional palette quantization with dithering.
+ */
+export function applyPixelPost(img: ImageData, settings: PixelPostSettings): void {
+  const { data, width, height } = img;
+
+  for (let i = 3; i < data.length; i += 4) {
+    data[i] = data[i]! >= settings.alphaThreshold ? 255 : 0;
+  }
+
+  const { palette } = settings;
+  if (palette.length === 0) return;
+  const nearest = nearestColorLookup(palette);
+
+  if (settings.dither === "floyd-steinberg") {
+    // Error buffer in float so diffusion can go negative / above 255
+    const buf = new Float32Array(width * height * 3);
+    for (let i = 0, j = 0; i < data.length; i += 4, j += 3) {
+      buf[j] = data[i]!; buf[j + 1] = data[i + 1]!; buf[j + 2] = data[i + 2]!;
+    }
+    for (let y = 0; y < height; y++) {
+      for (let x = 0; x < width; x++) {
+        const p = y * width + x;
+        if (data[p * 4 + 3] === 0) continue; // background doesn't take or spread error
+        const j = p * 3;
+        const c = nearest(buf[j]!, buf[j + 1]!, buf[j + 2]!);
+        const err = [buf[j]! - (c >> 16), buf[j + 1]! - ((c >> 8) & 0xff), buf[j + 2]! - (c & 0xff)];
+        write(data, p * 4, c);
+        diffuse(buf, data, width, height, x + 1, y, err, 7 / 16);
+        diffuse(buf, data, width, height, x - 1, y + 1, err, 3 / 16);
+        diffuse(buf, data, width, height, x, y + 1, err, 5 / 16);
+        diffuse(buf, data, width, height, x + 1, y + 1, err, 1 / 16);
+      }
+    }
+    return;
+  }
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const i = (y * width + x) * 4;
+      if (data[i + 3] === 0) continue;
+      const t = settings.dither === "ordered" ? BAYER_4[(y & 3) * 4 + (x & 3)]! * ORDERED_SPREAD : 0;
+      write(data, i, nearest(data[i]! + t, data[i + 1]! + t, data[i + 2]! + t));
+    }
+  }
+}
+
+function write(data: Uint8ClampedArray, i: number, c: number): void {
+  data[i] = c >> 16;
+  data[i + 1] = (c >> 8) & 0xff;
+  data[i + 2] = c & 0xff;
+}
+
+function diffuse(
+  buf: Float32Array,
+  data: Uint8ClampedArray,
+  w: number,
+  h: number,
+  x: number,
+  y: number,
+  err: number[],
+  k: number,
+): void {
+  if (x < 0 || x >= w || y >= h) return;
+  const p = y * w + x;
+  if (data[p * 4 + 3] === 0) return;
+  const j = p * 3;
+  buf[j] = buf[j]! + err[0]! * k;
+  buf[j + 1] = buf[j + 1]! + err[1]! * k;
+  buf[j + 2] = buf[j + 2]! + err[2]! * k;
+}
+
+/**
+ * Returns a nearest-palette-color function (luma-weighted RGB distance),
+ * memoized per rounded input color — sprite frames reuse few distinct colors.
+ */
+export function nearestColorLookup(palette: Palette): (r: number, g: number, b: number) => number {
+  const cache = new Map<number, number>();
+  return (r, g, b) => {
+    const ri = clampByte(r), gi = clampByte(g), bi = clampByte(b);
+    const key = (ri << 16) | (gi << 8) | bi;
+    const hit = cache.get(key);
+    if (hit !== undefined) return hit;
+
+    let best = palette[0]!;
+    let bestD = Infinity;
+    for (const c of palette) {
+      const dr = ri - (c >> 16), dg = gi - ((c >> 8) & 0xff), db = bi - (c & 0xff);
+      const d = 0.299 * dr * dr + 0.587 * dg * dg + 0.114 * db * db;
+      if (d < bestD) { bestD = d; best = c; }
+    }
+    cache.set(key, best);
+    return best;
+  };
+}
+
+function clampByte(v: number): number {
+  return v < 0 ? 0 : v > 255 ? 255 : Math.round(v);
+}
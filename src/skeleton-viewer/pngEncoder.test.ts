@@ -0,0 +1,95 @@
+import { describe, expect, test } from "bun:test";
+import { crc32, inflateSync } from "node:zlib";
+import { encodeAPNG, encodePNG } from "./pngEncoder";
+
+interface Chunk { type: string; data: Uint8Array }
+
+/** Splits a PNG into chunks, checking the signature and every CRC. */
+async function readChunks(blob: Blob): Promise<Chunk[]> {
+  const bytes = new Uint8Array(await blob.arrayBuffer());
+  expect([...bytes.subarray(0, 8)]).toEqual([137, 80, 78, 71, 13, 10, 26, 10]);
+  const view = new DataView(bytes.buffer);
+  const chunks: Chunk[] = [];
+  for (let at = 8; at < bytes.length;) {
+    const length = view.getUint32(at);
+    const type = String.fromCharCode(...bytes.subarray(at + 4, at + 8));
+    const data = bytes.subarray(at + 8, at + 8 + length);
+    expect(view.getUint32(at + 8 + length)).toBe(crc32(bytes.subarray(at + 4, at + 8 + length)));
+    chunks.push({ type, data });
+    at += 12 + length;
+  }
+  return chunks;
+}
+
+/** Inflated scanlines with the filter bytes checked and stripped. */
+function unfilter(idat: Uint8Array, rowBytes: number, height: number): Uint8Array {
+  const raw = new Uint8Array(inflateSync(idat));
+  expect(raw.length).toBe(height * (rowBytes + 1));
+  const out = new Uint8Array(height * rowBytes);
+  for (let y = 0; y < height; y++) {
+    expect(raw[y * (rowBytes + 1)]).toBe(0);
+    out.set(raw.subarray(y * (rowBytes + 1) + 1, (y + 1) * (rowBytes + 1)), y * rowBytes);
+  }
+  return out;
+}
+
+describe("encodePNG", () => {
+  test("writes 8-bit RGBA with IHDR, IDAT and IEND", async () => {
+    const pixels = new Uint8ClampedArray([255, 0, 0, 255, 0, 255, 0, 128, 0, 0, 255, 0]);
+    const chunks = await readChunks(await encodePNG(pixels, 3, 1));
+    expect(chunks.map(c => c.type)).toEqual(["IHDR", "IDAT", "IEND"]);
+
+    const ihdr = new DataView(chunks[0]!.data.buffer, chunks[0]!.data.byteOffset);
+    expect([ihdr.getUint32(0), ihdr.getUint32(4), ihdr.getUint8(8), ihdr.getUint8(9)]).toEqual([3, 1, 8, 6]);
+    expect([...unfilter(chunks[1]!.data, 12, 1)]).toEqual([...pixels]);
+  });
+
+  test("writes 16-bit samples big-endian, row by row", async () => {
+    const pixels = new Uint16Array([0, 1, 0x1234, 65535, 40000, 2, 3, 4]); // 1×2
+    const chunks = await readChunks(await encodePNG(pixels, 1, 2));
+    expect(chunks[0]!.data[8]).toBe(16);
+
+    const raw = unfilter(chunks[1]!.data, 8, 2);
+    const view = new DataView(raw.buffer);
+    expect(Array.from({ length: 8 }, (_, i) => view.getUint16(i * 2))).toEqual([...pixels]);
+  });
+});
+
+describe("encodeAPNG", () => {
+  const frame = (value: number) =>
+    ({ data: new Uint8ClampedArray(2 * 2 * 4).fill(value), width: 2, height: 2 }) as unknown as ImageData;
+
+  test("writes acTL, then fcTL + IDAT for the first frame and fcTL + fdAT after", async () => {
+    const chunks = await readChunks(await encodeAPNG([frame(10), frame(20), frame(30)], [100, 250, 40]));
+    expect(chunks.map(c => c.type)).toEqual(["IHDR", "acTL", "fcTL", "IDAT", "fcTL", "fdAT", "fcTL", "fdAT", "IEND"]);
+
+    const actl = new DataView(chunks[1]!.data.buffer, chunks[1]!.data.byteOffset);
+    expect([actl.getUint32(0), actl.getUint32(4)]).toEqual([3, 0]); // 3 frames, loop forever
+  });
+
+  test("numbers fcTL and fdAT chunks in one sequence and keeps the delays", async () => {
+    const chunks = await readChunks(await encodeAPNG([frame(10), frame(20), frame(30)], [100, 250, 40]));
+    const sequence = chunks
+      .filter(c => c.type === "fcTL" || c.type === "fdAT")
+      .map(c => new DataView(c.data.buffer, c.data.byteOffset).getUint32(0));
+    expect(sequence).toEqual([0, 1, 2, 3, 4]);
+
+    const controls = chunks.filter(c => c.type === "fcTL").map(c => {
+      const v = new DataView(c.data.buffer, c.data.byteOffset);
+      return { w: v.getUint32(4), h: v.getUint32(8), delay: v.getUint16(20) / v.getUint16(22), dispose: c.data[24], blend: c.data[25] };
+    });
+    expect(controls).toEqual([
+      { w: 2, h: 2, delay: 0.1, dispose: 1, blend: 0 },
+      { w: 2, h: 2, delay: 0.25, dispose: 1, blend: 0 },
+      { w: 2, h: 2, delay: 0.04, dispose: 1, blend: 0 },
+    ]);
+  });
+
+  test("stores every frame's pixels", async () => {
+    const chunks = await readChunks(await encodeAPNG([frame(10), frame(20)], [100, 100]));
+    const first = unfilter(chunks.find(c => c.type === "IDAT")!.data, 8, 2);
+    const second = unfilter(chunks.find(c => c.type === "fdAT")!.data.subarray(4), 8, 2);
+    expect(first.every(v => v === 10)).toBe(true);
+    expect(second.every(v => v === 20)).toBe(true);
+  });
+});
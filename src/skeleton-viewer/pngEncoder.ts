@@ -0,0 +1,133 @@
+// Minimal PNG writer for what canvas.toBlob() can't produce (16-bit channels,
+// animated APNG).
+// Deflate comes from the browser's CompressionStream, whose
+// "deflate" format is exactly the zlib stream PNG expects.
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+function crc32(bytes: Uint8Array): number {
+  let c = 0xffffffff;
+  for (let i = 0; i < bytes.length; i++) c = CRC_TABLE[(c ^ bytes[i]!) & 0xff]! ^ (c >>> 8);
+  return (c ^ 0xffffffff) >>> 0;
+}
+
+export async function deflate(bytes: Uint8Array<ArrayBuffer>): Promise<Uint8Array<ArrayBuffer>> {
+  const stream = new Blob([bytes]).stream().pipeThrough(new CompressionStream("deflate"));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+/** One length-prefixed, CRC-suffixed PNG chunk. */
+export function pngChunk(type: string, data: Uint8Array): Uint8Array<ArrayBuffer> {
+  const out = new Uint8Array(12 + data.length);
+  const view = new DataView(out.buffer);
+  view.setUint32(0, data.length);
+  for (let i = 0; i < 4; i++) out[4 + i] = type.charCodeAt(i);
+  out.set(data, 8);
+  view.setUint32(8 + data.length, crc32(out.subarray(4, 8 + data.length)));
+  return out;
+}
+
+export const PNG_SIGNATURE = new Uint8Array([137, 80, 78, 71, 13, 10, 26, 10]);
+
+/** IHDR payload for an RGBA (color type 6) image. */
+export function ihdr(width: number, height: number, bitDepth: 8 | 16): Uint8Array<ArrayBuffer> {
+  const data = new Uint8Array(13);
+  const view = new DataView(data.buffer);
+  view.setUint32(0, width);
+  view.setUint32(4, height);
+  data[8] = bitDepth;
+  data[9] = 6; // RGBA
+  return data;
+}
+
+/**
+ * Raw scanlines for an RGBA image: filter byte 0 per row, big-endian samples.
+ * `pixels` is top-left origin, row-major, 4 samples per pixel.
+ */
+export function scanlines(pixels: Uint8Array | Uint8ClampedArray | Uint16Array, width: number, height: number): Uint8Array<ArrayBuffer> {
+  const bytesPerSample = pixels instanceof Uint16Array ? 2 : 1;
+  const rowBytes = width * 4 * bytesPerSample;
+  const out = new Uint8Array(height * (rowBytes + 1));
+  const view = new DataView(out.buffer);
+  for (let y = 0; y < height; y++) {
+    const rowStart = y * (rowBytes + 1) + 1; // +1 skips the filter byte (0 = None)
+    for (let i = 0; i < width * 4; i++) {
+      const v = pixels[y * width * 4 + i]!;
+      if (bytesPerSample === 2) view.setUint16(rowStart + i * 2, v);
+      else out[rowStart + i] = v;
+    }
+  }
+  return out;
+}
+
+export function concatBytes(parts: Uint8Array[]): Uint8Array<ArrayBuffer> {
+  const out = new Uint8Array(parts.reduce((n, p) => n + p.length, 0));
+  let offset = 0;
+  parts.forEach(p => { out.set(p, offset); offset += p.length; });
+  return out;
+}
+
+/** Encodes an RGBA image as PNG — 8-bit from Uint8 data, 16-bit from Uint16 data. */
+export async function encodePNG(
+  pixels: Uint8Array | Uint8ClampedArray | Uint16Array,
+  width: number,
+  height: number,
+): Promise<Blob> {
+  const bitDepth = pixels instanceof Uint16Array ? 16 : 8;
+  const idat = await deflate(scanlines(pixels, width, height));
+  const bytes = concatBytes([
+    PNG_SIGNATURE,
+    pngChunk("IHDR", ihdr(width, height, bitDepth)),
+    pngChunk("IDAT", idat),
+    pngChunk("IEND", new Uint8Array(0)),
+  ]);
+  return new Blob([bytes], { type: "image/png" });
+}
+
+/**
+ * Encodes 8-bit RGBA frames of equal size as a looping APNG. `delaysMs` are
+ * per frame; each frame replaces the previous one, alpha included.
+ */
+export async function encodeAPNG(frames: ImageData[], delaysMs: number[]): Promise<Blob> {
+  const { width, height } = frames[0]!;
+  let sequence = 0;
+
+  const actl = new Uint8Array(8);
+  new DataView(actl.buffer).setUint32(0, frames.length); // num_plays 0 = loop forever
+
+  const parts: Uint8Array[] = [PNG_SIGNATURE, pngChunk("IHDR", ihdr(width, height, 8)), pngChunk("acTL", actl)];
+  for (let fi = 0; fi < frames.length; fi++) {
+    const fctl = new Uint8Array(26);
+    const view = new DataView(fctl.buffer);
+    view.setUint32(0, sequence++);
+    view.setUint32(4, width);
+    view.setUint32(8, height);
+    // x/y offsets stay 0: every frame covers the full canvas
+    view.setUint16(20, Math.min(65535, Math.round(delaysMs[fi] ?? 100)));
+    view.setUint16(22, 1000);
+    fctl[24] = 1; // dispose_op BACKGROUND
+    fctl[25] = 0; // blend_op SOURCE
+    parts.push(pngChunk("fcTL", fctl));
+
+    const data = await deflate(scanlines(frames[fi]!.data, width, height));
+    if (fi === 0) {
+      // The first frame doubles as the still image for non-APNG viewers
+      parts.push(pngChunk("IDAT", data));
+    } else {
+      const fdat = new Uint8Array(4 + data.length);
+      new DataView(fdat.buffer).setUint32(0, sequence++);
+      fdat.set(data, 4);
+      parts.push(pngChunk("fdAT", fdat));
+    }
+  }
+  parts.push(pngChunk("IEND", new Uint8Array(0)));
+  return new Blob([concatBytes(parts)], { type: "image/apng" });
+}
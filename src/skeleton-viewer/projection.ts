@@ -0,0 +1,139 @@
+import * as THREE from "three";
+import { buildSpriteDirs, placeCamera, LOOK_TARGET, type SpriteDir } from "./directions";
+import type { SpriteSettings } from "./spriteSettings";
+
+export type ProjectionMode = "perspective" | "orthographic" | "isometric";
+
+export const PROJECTION_MODES: { value: ProjectionMode; label: string }[] = [
+  { value: "perspective", label: "Perspective" },
+  { value: "orthographic", label: "Orthographic" },
+  { value: "isometric", label: "Isometric 2:1" },
+];
+
+// Pitch at which a ground-plane square projects to a 2:1 diamond (≈26.57°).
+// Pixel-art "isometric" is really this dimetric projection, not true 35.26° iso.
+export const DIMETRIC_ELEVATION = THREE.MathUtils.radToDeg(Math.atan(0.5));
+
+// Used when orthographic framing is requested before any clip bounds exist.
+const FALLBACK_BOUNDS = new THREE.Box3(
+  new THREE.Vector3(-0.5, 0, -0.5),
+  new THREE.Vector3(0.5, 1.8, 0.5),
+);
+
+const FRAME_PADDING = 1.04; // 4% margin so silhouettes never touch the frame edge
+
+/** Directions for the current settings — isometric mode forces the dimetric pitch. */
+export function buildViewDirs(settings: SpriteSettings): SpriteDir[] {
+  const config = settings.projection === "isometric"
+    ? { ...settings.directions, elevation: DIMETRIC_ELEVATION }
+    : settings.directions;
+  return buildSpriteDirs(config);
+}
+
+/**
+ * Union of the character's world bounds sampled across the whole clip, so an
+ * orthographic frame sized from it never clips any pose. Restores the action
+ * time afterwards, the same way exportSpritesheet does.
+ */
+export function computeClipBounds(
+  root: THREE.Object3D,
+  mixer: THREE.AnimationMixer,
+  clip: THREE.AnimationClip,
+  samples = 24,
+): THREE.Box3 {
+  const action = mixer.clipAction(clip);
+  const wasPaused = action.paused;
+  const savedTime = action.time;
+  action.paused = true;
+
+  const box = new THREE.Box3();
+  const pose = new THREE.Box3();
+  for (let i = 0; i < samples; i++) {
+    action.time = (i / samples) * clip.duration;
+    mixer.update(0);
+    root.updateMatrixWorld(true);
+    box.union(pose.setFromObject(root));
+  }
+
+  action.time = savedTime;
+  action.paused = wasPaused;
+  mixer.update(0);
+  return box;
+}
+
+export interface SpriteView {
+  dirs: SpriteDir[];
+  camera: THREE.PerspectiveCamera | THREE.OrthographicCamera;
+  /** Points the camera along direction `index` of `dirs`. */
+  aim(index: number): void;
+}
+
+/**
+ * Builds the camera used for sprite frames. Orthographic modes share one frame
+ * size across all directions (the widest projected extent of `bounds`), so a
+ * character keeps the same pixel scale whichever way it faces.
+ */
+export function createSpriteView(settings: SpriteSettings, bounds: THREE.Box3 | null): SpriteView {
+  const dirs = buildViewDirs(settings);
+
+  if (settings.projection === "perspective") {
+    const camera = new THREE.PerspectiveCamera(45, 1, 0.1, 100);
+    return {
+      dirs,
+      camera,
+      aim(index) {
+        const dir = dirs[index];
+        if (dir) placeCamera(camera, dir);
+      },
+    };
+  }
+
+  const box = bounds && !bounds.isEmpty() ? bounds : FALLBACK_BOUNDS;
+  const center = box.getCenter(new THREE.Vector3());
+  const radius = box.getBoundingSphere(new THREE.Sphere()).radius;
+  const half = orthoHalfSize(box, center, dirs) * FRAME_PADDING;
+  const camDist = radius + 1;
+
+  const camera = new THREE.OrthographicCamera(-half, half, half, -half, 0.01, camDist + radius + 1);
+  camera.updateProjectionMatrix();
+
+  const viewDir = new THREE.Vector3();
+  return {
+    dirs,
+    camera,
+    aim(index) {
+      const dir = dirs[index];
+      if (!dir) return;
+      viewDir.set(dir.pos[0], dir.pos[1], dir.pos[2]).sub(LOOK_TARGET).normalize();
+      camera.position.copy(center).addScaledVector(viewDir, camDist);
+      camera.lookAt(center);
+    },
+  };
+}
+
+// Largest half-extent of the box corners (relative to `center`) on either
+// screen axis across every direction's view basis.
+function orthoHalfSize(box: THREE.Box3, center: THREE.Vector3, dirs: SpriteDir[]): number {
+  const corners = [0, 1, 2, 3, 4, 5, 6, 7].map(i => new THREE.Vector3(
+    i & 1 ? box.max.x : box.min.x,
+    i & 2 ? box.max.y : box.min.y,
+    i & 4 ? box.max.z : box.min.z,
+  ).sub(center));
+
+  const eye = new THREE.Vector3();
+  const basis = new THREE.Matrix4();
+  const right = new THREE.Vector3();
+  const up = new THREE.Vector3();
+  let half = 0;
+
+  dirs.forEach(dir => {
+    eye.set(dir.pos[0], dir.pos[1], dir.pos[2]).sub(LOOK_TARGET);
+    basis.lookAt(eye, new THREE.Vector3(), THREE.Object3D.DEFAULT_UP);
+    basis.extractBasis(right, up, new THREE.Vector3());
+    corners.forEach(c => {
+      half = Math.max(half, Math.abs(c.dot(right)), Math.abs(c.dot(up)));
+    });
+  });
+
+  return half;
+}
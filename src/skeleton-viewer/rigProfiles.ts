@@ -0,0 +1,228 @@
+import * as THREE from "three";
+import { strip } from "./boneVisuals";
+
+// The rest of the viewer (boneConfig, addVisuals, accessories, root motion)
+// speaks Mixamo bone names. A rig profile translates another skeleton's bone
+// names to those canonical names; bones and clip tracks are then renamed at
+// load, so nothing downstream needs to know which rig it is looking at.
+
+const SIDES = ["Left", "Right"] as const;
+const FINGERS = ["Thumb", "Index", "Middle", "Ring", "Pinky"] as const;
+
+const SIDED = ["Shoulder", "Arm", "ForeArm", "Hand", "UpLeg", "Leg", "Foot", "ToeBase", "Toe_End"];
+
+/** Every name the visuals and accessories understand. */
+export const CANONICAL_BONES: string[] = [
+  "Hips", "Spine", "Spine1", "Spine2", "Neck", "Head", "HeadTop_End",
+  ...SIDES.flatMap(side => [
+    ...SIDED.map(part => `${side}${part}`),
+    ...FINGERS.flatMap(f => [1, 2, 3, 4].map(i => `${side}Hand${f}${i}`)),
+  ]),
+];
+
+export interface RigProfile {
+  id: string;
+  label: string;
+  /** Source bone name → canonical name. Keys are compared via normKey(). */
+  bones: Record<string, string>;
+}
+
+/**
+ * Per bone, keyed by its name as loaded: the canonical name, null when the
+ * bone is ignored (no visuals), or absent when it stays unmapped.
+ */
+export interface RigMapping {
+  profile: string;
+  bones: Record<string, string | null>;
+}
+
+// FBXLoader sanitizes names (drops "." and ":"), so "DEF-upper_arm.L" arrives
+// as "DEF-upper_armL". Comparing lowercase alphanumerics covers both forms.
+function normKey(name: string): string {
+  return name.toLowerCase().replace(/[^a-z0-9]/g, "");
+}
+
+function sided(build: (side: "Left" | "Right", s: string) => Record<string, string>): Record<string, string> {
+  return { ...build("Left", "l"), ...build("Right", "r") };
+}
+
+// Three joints per finger, named by `name("index", 1)` etc.
+function fingerChain(side: string, name: (finger: string, index: number) => string): Record<string, string> {
+  const out: Record<string, string> = {};
+  FINGERS.forEach(f => {
+    for (let i = 1; i <= 3; i++) out[name(f.toLowerCase(), i)] = `${side}Hand${f}${i}`;
+  });
+  return out;
+}
+
+const MIXAMO: RigProfile = {
+  id: "mixamo",
+  label: "Mixamo",
+  bones: Object.fromEntries(CANONICAL_BONES.map(n => [n, n])),
+};
+
+const UE_MANNEQUIN: RigProfile = {
+  id: "ue-mannequin",
+  label: "UE Mannequin",
+  bones: {
+    pelvis: "Hips", spine_01: "Spine", spine_02: "Spine1", spine_03: "Spine2",
+    neck_01: "Neck", head: "Head",
+    ...sided((side, s) => ({
+      [`clavicle_${s}`]: `${side}Shoulder`,
+      [`upperarm_${s}`]: `${side}Arm`,
+      [`lowerarm_${s}`]: `${side}ForeArm`,
+      [`hand_${s}`]: `${side}Hand`,
+      [`thigh_${s}`]: `${side}UpLeg`,
+      [`calf_${s}`]: `${side}Leg`,
+      [`foot_${s}`]: `${side}Foot`,
+      [`ball_${s}`]: `${side}ToeBase`,
+      ...fingerChain(side, (f, i) => `${f}_0${i}_${s}`),
+    })),
+  },
+};
+
+const RIGIFY: RigProfile = {
+  id: "rigify",
+  label: "Blender Rigify",
+  bones: {
+    "DEF-spine": "Hips", "DEF-spine.001": "Spine", "DEF-spine.002": "Spine1", "DEF-spine.003": "Spine2",
+    "DEF-spine.004": "Neck", "DEF-spine.006": "Head",
+    ...sided((side, s) => ({
+      [`DEF-shoulder.${s}`]: `${side}Shoulder`,
+      [`DEF-upper_arm.${s}`]: `${side}Arm`,
+      [`DEF-forearm.${s}`]: `${side}ForeArm`,
+      [`DEF-hand.${s}`]: `${side}Hand`,
+      [`DEF-thigh.${s}`]: `${side}UpLeg`,
+      [`DEF-shin.${s}`]: `${side}Leg`,
+      [`DEF-foot.${s}`]: `${side}Foot`,
+      [`DEF-toe.${s}`]: `${side}ToeBase`,
+      ...fingerChain(side, (f, i) => `DEF-${f === "thumb" ? "thumb" : `f_${f}`}.0${i}.${s}`),
+    })),
+  },
+};
+
+// CMU mocap as converted to BVH/FBX: Mixamo-like names, one extra spine bone
+const CMU: RigProfile = {
+  id: "cmu",
+  label: "CMU mocap",
+  bones: {
+    Hips: "Hips", LowerBack: "Spine", Spine: "Spine1", Spine1: "Spine2", Neck: "Neck", Head: "Head",
+    HeadTop_End: "HeadTop_End",
+    ...sided(side => ({
+      [`${side}Shoulder`]: `${side}Shoulder`,
+      [`${side}Arm`]: `${side}Arm`,
+      [`${side}ForeArm`]: `${side}ForeArm`,
+      [`${side}Hand`]: `${side}Hand`,
+      [`${side}UpLeg`]: `${side}UpLeg`,
+      [`${side}Leg`]: `${side}Leg`,
+      [`${side}Foot`]: `${side}Foot`,
+      [`${side}ToeBase`]: `${side}ToeBase`,
+      [`${side}Toe_End`]: `${side}Toe_End`,
+      [`${side[0]}Thumb`]: `${side}HandThumb1`,
+      [`${side}HandIndex1`]: `${side}HandIndex1`,
+    })),
+  },
+};
+
+export const RIG_PROFILES: RigProfile[] = [MIXAMO, UE_MANNEQUIN, RIGIFY, CMU];
+
+function profileLookup(profile: RigProfile): Map<string, string> {
+  return new Map(Object.entries(profile.bones).map(([k, v]) => [normKey(k), v]));
+}
+
+/** Name a bone was loaded with, before any rig mapping renamed it. */
+export function sourceBoneName(bone: THREE.Object3D): string {
+  return (bone.userData.sourceName as string | undefined) ?? bone.name;
+}
+
+/**
+ * Maps bone names with `profile` (or the best-scoring profile when omitted),
+ * then fills gaps from the hierarchy: the Hips fall back to the first bone that
+ * branches three ways, and missing spine bones to the chain between Hips and Neck.
+ */
+export function detectRig(bones: THREE.Object3D[], profileId?: string): RigMapping {
+  const names = bones.map(b => strip(sourceBoneName(b)));
+  const scored = RIG_PROFILES.map(profile => {
+    const lookup = profileLookup(profile);
+    return { profile, lookup, score: names.filter(n => lookup.has(normKey(n))).length };
+  });
+  const best = scored.find(s => s.profile.id === profileId)
+    ?? scored.reduce((a, b) => (b.score > a.score ? b : a));
+
+  const mapping: Record<string, string | null> = {};
+  const taken = new Set<string>();
+  bones.forEach((bone, i) => {
+    const canonical = best.lookup.get(normKey(names[i]!));
+    if (canonical && !taken.has(canonical)) {
+      mapping[sourceBoneName(bone)] = canonical;
+      taken.add(canonical);
+    }
+  });
+
+  const byCanonical = (name: string) => bones.find(b => mapping[sourceBoneName(b)] === name);
+  const assign = (bone: THREE.Object3D, name: string) => {
+    if (taken.has(name) || mapping[sourceBoneName(bone)] !== undefined) return;
+    mapping[sourceBoneName(bone)] = name;
+    taken.add(name);
+  };
+
+  if (!taken.has("Hips")) {
+    const hips = bones.find(b => b.children.filter(c => bones.includes(c)).length >= 3) ?? bones[0];
+    if (hips) assign(hips, "Hips");
+  }
+
+  const hips = byCanonical("Hips");
+  const neck = byCanonical("Neck");
+  if (hips && neck) {
+    const chain: THREE.Object3D[] = [];
+    for (let b = neck.parent; b && b !== hips; b = b.parent) chain.unshift(b);
+    if (chain.length > 0) {
+      // Keep the top of the chain as Spine2 (it carries the shoulders)
+      const slots = ["Spine", "Spine1", "Spine2"].slice(-Math.min(3, chain.length));
+      chain.slice(-slots.length).forEach((b, i) => assign(b, slots[i]!));
+    }
+  }
+
+  return { profile: best.profile.id, bones: mapping };
+}
+
+/** Canonical names the visuals know that no bone maps to. */
+export function missingCanonical(mapping: RigMapping): string[] {
+  const mapped = new Set(Object.values(mapping.bones));
+  return ["Hips", "Spine", "Spine1", "Spine2", "Neck", "Head", ...SIDES.flatMap(s => SIDED.slice(0, 8).map(p => `${s}${p}`))]
+    .filter(n => !mapped.has(n));
+}
+
+/**
+ * Renames bones to their canonical names (unmapped bones keep their stripped
+ * name, ignored bones are flagged `userData.rigIgnored`) and returns copies
+ * of `clips` with their tracks renamed to match. Mapping keys are always the
+ * names the bones were loaded with, so a rig can be re-applied after edits.
+ */
+export function applyRig(
+  bones: THREE.Object3D[],
+  clips: THREE.AnimationClip[],
+  mapping: RigMapping,
+): THREE.AnimationClip[] {
+  const renames = new Map<string, string>();
+  bones.forEach(bone => {
+    const source = sourceBoneName(bone);
+    bone.userData.sourceName = source;
+    const target = mapping.bones[source];
+    bone.userData.rigIgnored = target === null;
+    const name = target ?? strip(source);
+    if (bone.name !== name) renames.set(bone.name, name);
+    bone.name = name;
+  });
+
+  if (renames.size === 0) return clips;
+  return clips.map(clip => {
+    const copy = clip.clone();
+    copy.tracks.forEach(track => {
+      const { nodeName, propertyName } = THREE.PropertyBinding.parseTrackName(track.name);
+      const renamed = renames.get(nodeName);
+      if (renamed) track.name = `${renamed}.${propertyName}`;
+    });
+    return copy;
+  });
+}
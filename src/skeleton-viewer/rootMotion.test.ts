@@ -0,0 +1,44 @@
+import { describe, expect, test } from "bun:test";
+import * as THREE from "three";
+import { createRootMotionSampler } from "./rootMotion";
+
+// Z-up centimetre armature: the Hips walk 100 cm along local +Y while bobbing
+// 5 cm on local Z (up)
+function walk(): THREE.AnimationClip {
+  return new THREE.AnimationClip("Walk", 1, [
+    new THREE.VectorKeyframeTrack("Hips.position", [0, 0.5, 1], [0, 0, 90, 0, 50, 95, 0, 100, 90]),
+  ]);
+}
+
+function rig(rotateRoot: boolean): THREE.Object3D {
+  const root = new THREE.Group();
+  root.scale.setScalar(0.01);
+  const armature = new THREE.Object3D();
+  const zUp = new THREE.Quaternion().setFromAxisAngle(new THREE.Vector3(1, 0, 0), -Math.PI / 2);
+  (rotateRoot ? root : armature).quaternion.copy(zUp);
+  const hips = new THREE.Bone();
+  hips.name = "Hips";
+  root.add(armature);
+  armature.add(hips);
+  return root;
+}
+
+describe("createRootMotionSampler", () => {
+  test.each([false, true])("maps the Hips track through the armature rotation (on root: %p)", rotateRoot => {
+    const root = rig(rotateRoot);
+    // The preview moves the root around; that must not show up as travel
+    root.position.set(3, 0, -2);
+    const sampler = createRootMotionSampler(walk(), root)!;
+
+    // Local +Y is world -Z; the vertical bob stays out of the XZ offset
+    expect(sampler.cycle.x).toBeCloseTo(0);
+    expect(sampler.cycle.y).toBeCloseTo(-1);
+    expect(sampler.at(0.5).x).toBeCloseTo(0);
+    expect(sampler.at(0.5).y).toBeCloseTo(-0.5);
+  });
+
+  test("returns null without a Hips translation track", () => {
+    const clip = new THREE.AnimationClip("Idle", 1, [new THREE.VectorKeyframeTrack("Spine.scale", [0], [1, 1, 1])]);
+    expect(createRootMotionSampler(clip, rig(false))).toBeNull();
+  });
+});
@@ -0,0 +1,131 @@
+import * as THREE from "three";
+import { isHipsTranslation } from "./character";
+
+/** Horizontal hips travel sampled from the clip's original Hips translation track. */
+export interface RootMotionSampler {
+  /** World-space XZ offset (metres) at `time`, relative to the clip start. */
+  at(time: number): THREE.Vector2;
+  /** Travel over one full loop of the clip. */
+  cycle: THREE.Vector2;
+}
+
+export interface RootMotionFrame {
+  x: number;  // offset from frame 0, metres
+  z: number;
+  dx: number; // step to the next sample (the last frame steps to the loop end)
+  dz: number;
+}
+
+export interface RootMotionData {
+  units: "metres";
+  frames: RootMotionFrame[];
+  cycle: { x: number; z: number };
+  /** Per direction label: the same steps projected into sprite pixels (+x right, +y down). */
+  directions: Record<string, { dx: number; dy: number }[]>;
+}
+
+/**
+ * The Hips track is in its parent's space: samples go through every transform
+ * from there up to `root`, then the root's own rotation and scale (unit scale,
+ * e.g. 0.01 for Mixamo's centimetres) — not its position, which the preview
+ * moves. Returns null if the clip has no Hips translation.
+ */
+export function createRootMotionSampler(clip: THREE.AnimationClip, root: THREE.Object3D): RootMotionSampler | null {
+  const track = clip.tracks.find(isHipsTranslation);
+  if (!track) return null;
+
+  const toWorld = new THREE.Matrix4();
+  const hips = THREE.PropertyBinding.findNode(root, THREE.PropertyBinding.parseTrackName(track.name).nodeName) as THREE.Object3D | null;
+  for (let node = hips?.parent; node && node !== root; node = node.parent) {
+    node.updateMatrix();
+    toWorld.premultiply(node.matrix);
+  }
+  toWorld.premultiply(new THREE.Matrix4().compose(new THREE.Vector3(), root.quaternion, root.scale));
+
+  const interp = track.InterpolantFactoryMethodLinear();
+  const origin = new THREE.Vector2();
+  const p = new THREE.Vector3();
+  const sample = (time: number, out: THREE.Vector2) => {
+    const v = interp.evaluate(THREE.MathUtils.clamp(time, 0, clip.duration));
+    p.set(v[0]!, v[1]!, v[2]!).applyMatrix4(toWorld);
+    return out.set(p.x, p.z);
+  };
+  sample(0, origin);
+
+  const at = (time: number) => sample(time, new THREE.Vector2()).sub(origin);
+  return { at, cycle: at(clip.duration) };
+}
+
+/**
+ * Root motion for `frameCount` evenly spaced samples — the same times
+ * exportSpritesheet renders — plus per-direction pixel steps. `cameras[i]`
+ * must already be aimed along direction i; `pivot` is the in-place ground point.
+ */
+export function extractRootMotion(
+  sampler: RootMotionSampler,
+  duration: number,
+  frameCount: number,
+  dirs: { label: string; camera: THREE.Camera }[],
+  pivot: THREE.Vector3,
+  frameSize: number,
+): RootMotionData {
+  const offsets = Array.from({ length: frameCount + 1 }, (_, i) => sampler.at((i / frameCount) * duration));
+  const round = (v: number) => Math.round(v * 10000) / 10000;
+
+  const frames = offsets.slice(0, frameCount).map((o, i) => {
+    const next = offsets[i + 1]!;
+    return { x: round(o.x), z: round(o.y), dx: round(next.x - o.x), dz: round(next.y - o.y) };
+  });
+
+  const directions: RootMotionData["directions"] = {};
+  const a = new THREE.Vector3();
+  const b = new THREE.Vector3();
+  dirs.forEach(({ label, camera }) => {
+    directions[label] = frames.map(f => {
+      a.copy(pivot).project(camera);
+      b.set(pivot.x + f.dx, pivot.y, pivot.z + f.dz).project(camera);
+      // NDC spans 2 units across the frame; canvas Y points down
+      return { dx: round(((b.x - a.x) / 2) * frameSize), dy: round(((a.y - b.y) / 2) * frameSize) };
+    });
+  });
+
+  return {
+    units: "metres",
+    frames,
+    cycle: { x: round(sampler.cycle.x), z: round(sampler.cycle.y) },
+    directions,
+  };
+}
+
+/**
+ * Accumulates travel across loops for the "play with root motion" preview.
+ * Wraps back to the origin once the character has walked `maxTravel` metres
+ * so it never leaves the grid. Call `looped()` from the mixer's "loop" event:
+ * only a real wrap carries a cycle of travel over — time moving backwards
+ * otherwise (scrubbing, stepping back) restarts the travel instead.
+ */
+export function createRootMotionPreview(sampler: RootMotionSampler, maxTravel = 2.5) {
+  const carried = new THREE.Vector2();
+  const offset = new THREE.Vector2();
+  let prevTime = 0;
+  let loops = 0;
+
+  return {
+    looped(): void {
+      loops++;
+    },
+
+    offset(time: number): THREE.Vector2 {
+      if (loops > 0) carried.addScaledVector(sampler.cycle, loops);
+      else if (time < prevTime) carried.set(0, 0);
+      loops = 0;
+      prevTime = time;
+      offset.copy(carried).add(sampler.at(time));
+      if (offset.length() > maxTravel) {
+        carried.set(0, 0);
+        offset.copy(sampler.at(time));
+      }
+      return offset;
+    },
+  };
+}
@@ -1,13 +1,31 @@
 import * as THREE from "three";
-
-export const SPRITE_DIRS = [
-  { label: "Front", pos: [0, 0.85, 3.2] as const },
-  { label: "Right", pos: [3.2, 0.85, 0] as const },
-  { label: "Back",  pos: [0, 0.85, -3.2] as const },
-  { label: "Left",  pos: [-3.2, 0.85, 0] as const },
-] as const;
-
-export const LOOK_TARGET = new THREE.Vector3(0, 0.85, 0);
+import { createSpriteView } from "./projection";
+import { buildAtlasMetadata } from "./atlasMeta";
+import { applyPixelPost } from "./pixelPost";
+import { applyOutline } from "./outline";
+import { createLimbIdPass, limbNameList, mirroredLimbIds, type LimbIdPass } from "./limbIdPass";
+import {
+  SPRITE_PASSES,
+  createSpritePassRenderer,
+  depthRange,
+  passImageName,
+  type SpritePass,
+} from "./spritePasses";
+import { createRootMotionSampler, extractRootMotion, type RootMotionData } from "./rootMotion";
+import { mirrorLimbIdRemap, mirrorNormals, mirrorSheetRow } from "./spriteMirror";
+import { buildLayerManifest, collectLayers, isolateLayer, layerImageName } from "./spriteLayers";
+import {
+  buildGodotSpriteFrames,
+  buildUnityClipListing,
+  buildUnityMeta,
+  godotResourceName,
+  unityClipsName,
+  unityMetaName,
+} from "./engineExport";
+import { buildPackedAtlasJSON, packSheets, packedAtlasName, packedPageName } from "./atlasPacker";
+import { canvasBlob, jsonBlob, saveExport, type ExportArtifact, type ExportResult } from "./exportSink";
+import type { SpriteDir } from "./directions";
+import { DEFAULT_SPRITE_SETTINGS, type SpriteSettings } from "./spriteSettings";
 
 function readPixelsFlipped(
   gl: WebGLRenderingContext,
@@ -27,22 +45,87 @@ function readPixelsFlipped(
   return new ImageData(pixels, w, h);
 }
 
-function triggerDownload(blob: Blob, filename: string): void {
-  const url = URL.createObjectURL(blob);
-  const a = document.createElement("a");
-  a.href = url;
-  a.download = filename;
-  a.click();
-  URL.revokeObjectURL(url);
+/** Everything a sprite render needs from the viewer. */
+export interface SpriteTarget {
+  scene: THREE.Scene;
+  root: THREE.Object3D;          // character root (scale converts track units to metres)
+  mixer: THREE.AnimationMixer;
+  clip: THREE.AnimationClip;     // in-place clip that is rendered
+  sourceClip: THREE.AnimationClip; // original clip, Hips translation intact
+  limbs: Map<string, THREE.Mesh[]>;
+  bounds: THREE.Box3 | null; // clip bounds — frames the orthographic modes
+  name: string;              // base name used for frame and file names
+  character: string;         // source file stem, for the export folder
+}
+
+export interface SpriteSheet {
+  canvas: HTMLCanvasElement;
+  name: string;
+  clipName: string;
+  dirs: SpriteDir[];
+  frameCount: number;
+  frameSize: number;
+  frameDuration: number; // seconds per frame = clip.duration / frameCount
+  pivots: [number, number][]; // per direction: ground point under the character, normalized
+  rootMotion: RootMotionData | null;
+  passes: { pass: SpritePass; canvas: HTMLCanvasElement }[]; // same grid as `canvas`
+  depthRanges: [number, number][]; // per direction: [near, far] metres the depth pass spans
+  limbNames: string[];             // limb ID pass: R = index + 1
+  layers: { name: string; bone: string | null; canvas: HTMLCanvasElement }[]; // same grid as `canvas`
+}
+
+/** Hides the grid and background so sprites render onto transparency. Returns a restore function. */
+export function isolateSpriteScene(scene: THREE.Scene): () => void {
+  const grid = scene.children.find(c => c instanceof THREE.GridHelper);
+  const prevBg = scene.background;
+  if (grid) grid.visible = false;
+  scene.background = null;
+  return () => {
+    if (grid) grid.visible = true;
+    scene.background = prevBg;
+  };
 }
 
-export function exportSpritesheet(
+/**
+ * Renders one frame through the full pixel pipeline — color render,
+ * post-process, outline — so PixelView and the export produce identical pixels.
+ * `renderer` must be sized frameSize × frameSize with a transparent clear color.
+ */
+export function renderSpriteFrame(
+  renderer: THREE.WebGLRenderer,
   scene: THREE.Scene,
-  mixer: THREE.AnimationMixer,
-  clip: THREE.AnimationClip,
-  frameCount = 8,
-  frameSize = 64,
-): void {
+  camera: THREE.Camera,
+  settings: SpriteSettings,
+  idPass: LimbIdPass | null,
+): ImageData {
+  const { frameSize } = settings;
+  const restore = isolateSpriteScene(scene);
+
+  renderer.render(scene, camera);
+  const frame = readPixelsFlipped(renderer.getContext(), frameSize, frameSize);
+  applyPixelPost(frame, settings.post);
+
+  if (settings.outline.mode !== "none") {
+    const ids = settings.outline.mode === "outer-inner" && idPass
+      ? idPass.render(renderer, scene, camera, frameSize, frameSize)
+      : null;
+    applyOutline(frame, settings.outline, ids);
+  }
+
+  restore();
+  return frame;
+}
+
+/**
+ * Renders every direction × frame of `clip` into one grid canvas
+ * (columns = frames, rows = directions). The mixer is restored afterwards.
+ */
+export function renderSpritesheet(
+  target: SpriteTarget,
+  settings: SpriteSettings = DEFAULT_SPRITE_SETTINGS,
+): SpriteSheet {
+  const { scene, mixer, clip } = target;
+  const { frameCount, frameSize } = settings;
   const action = mixer.clipAction(clip);
   const wasPaused = action.paused;
   const savedTime = action.time;
@@ -53,27 +136,45 @@ export function exportSpritesheet(
   off.setSize(frameSize, frameSize);
   off.setClearColor(0x000000, 0);
 
-  const cam = new THREE.PerspectiveCamera(45, 1, 0.1, 100);
+  const view = createSpriteView(settings, target.bounds);
+  const idPass = createLimbIdPass(target.limbs);
 
   // Composite canvas: columns = frames, rows = directions
-  const numDirs = SPRITE_DIRS.length;
+  const numDirs = view.dirs.length;
   const composite = document.createElement("canvas");
   composite.width = frameCount * frameSize;
   composite.height = numDirs * frameSize;
   const ctx = composite.getContext("2d")!;
 
-  // Temporarily clean up scene for transparent sprite render
-  const grid = scene.children.find(c => c instanceof THREE.GridHelper);
-  const prevBg = scene.background;
-  if (grid) grid.visible = false;
-  scene.background = null;
+  const passes = SPRITE_PASSES.filter(p => settings.passes[p.value]).map(({ value }) => {
+    const canvas = document.createElement("canvas");
+    canvas.width = composite.width;
+    canvas.height = composite.height;
+    return { pass: value, canvas, ctx: canvas.getContext("2d")! };
+  });
+  const passRenderer = passes.length ? createSpritePassRenderer(idPass) : null;
 
-  const gl = off.getContext();
+  const layerDefs = settings.layers ? collectLayers(target.root).filter(l => l.meshes.length > 0) : [];
+  const layers = layerDefs.map(layer => {
+    const canvas = document.createElement("canvas");
+    canvas.width = composite.width;
+    canvas.height = composite.height;
+    return { layer, canvas, ctx: canvas.getContext("2d")! };
+  });
+  const depthRanges: [number, number][] = [];
+
+  const pivots: [number, number][] = [];
+  const ground = new THREE.Vector3();
+  const dirCameras: { label: string; camera: THREE.Camera }[] = [];
 
   for (let di = 0; di < numDirs; di++) {
-    const dir = SPRITE_DIRS[di]!;
-    cam.position.set(dir.pos[0], dir.pos[1], dir.pos[2]);
-    cam.lookAt(LOOK_TARGET);
+    view.aim(di);
+    view.camera.updateMatrixWorld();
+    pivots.push(projectPivot(ground.copy(PIVOT_POINT), view.camera));
+    dirCameras.push({ label: view.dirs[di]!.label, camera: view.camera.clone() });
+    const range = depthRange(view.camera, target.bounds);
+    depthRanges.push(range);
+    if (view.dirs[di]!.mirrorOf !== undefined) continue; // flipped from its source below
 
     for (let fi = 0; fi < frameCount; fi++) {
       // Scrub animation to this frame's time
@@ -81,20 +182,184 @@ export function exportSpritesheet(
       mixer.update(0);
       scene.updateMatrixWorld(true);
 
-      off.render(scene, cam);
-      ctx.putImageData(readPixelsFlipped(gl, frameSize, frameSize), fi * frameSize, di * frameSize);
+      const frame = renderSpriteFrame(off, scene, view.camera, settings, idPass);
+      ctx.putImageData(frame, fi * frameSize, di * frameSize);
+
+      if (passRenderer) {
+        const restore = isolateSpriteScene(scene);
+        passes.forEach(p => {
+          const img = passRenderer.render(p.pass, off, scene, view.camera, frameSize, range);
+          p.ctx.putImageData(img, fi * frameSize, di * frameSize);
+        });
+        restore();
+      }
+
+      layers.forEach(l => {
+        const restore = isolateLayer(layerDefs, l.layer);
+        l.ctx.putImageData(renderSpriteFrame(off, scene, view.camera, settings, idPass), fi * frameSize, di * frameSize);
+        restore();
+      });
     }
   }
 
-  // Restore scene
-  if (grid) grid.visible = true;
-  scene.background = prevBg;
+  // Mirrored rows are their source's frames flipped; pivot and depth follow
+  const limbIdRemap = mirrorLimbIdRemap(mirroredLimbIds(limbNameList(target.limbs)));
+  view.dirs.forEach((dir, di) => {
+    const src = dir.mirrorOf;
+    if (src === undefined) return;
+    mirrorSheetRow(ctx, frameSize, frameCount, src, di);
+    passes.forEach(p => {
+      const remap = p.pass === "normal" ? mirrorNormals : p.pass === "limbId" ? limbIdRemap : undefined;
+      mirrorSheetRow(p.ctx, frameSize, frameCount, src, di, remap);
+    });
+    layers.forEach(l => mirrorSheetRow(l.ctx, frameSize, frameCount, src, di));
+    const [px, py] = pivots[src]!;
+    pivots[di] = [Math.round((1 - px) * 10000) / 10000, py];
+    depthRanges[di] = depthRanges[src]!;
+  });
+
+  // Restore animation
   action.time = savedTime;
   action.paused = wasPaused;
   mixer.update(0);
+  passRenderer?.dispose();
+  idPass.dispose();
   off.dispose();
+  // Free the context now rather than at GC — batch exports render many sheets
+  // and browsers drop the oldest context (possibly the viewer's) past ~16
+  off.forceContextLoss();
+
+  // Rendering stays in-place; the stripped Hips travel goes into the metadata instead
+  const sampler = settings.rootMotion
+    ? createRootMotionSampler(target.sourceClip, target.root)
+    : null;
+  const rootMotion = sampler
+    ? extractRootMotion(sampler, clip.duration, frameCount, dirCameras, PIVOT_POINT, frameSize)
+    : null;
+  // A flipped row travels the flipped way, whatever its own camera would see
+  view.dirs.forEach(dir => {
+    if (!rootMotion || dir.mirrorOf === undefined) return;
+    const steps = rootMotion.directions[view.dirs[dir.mirrorOf]!.label] ?? [];
+    rootMotion.directions[dir.label] = steps.map(({ dx, dy }) => ({ dx: -dx || 0, dy }));
+  });
+
+  return {
+    canvas: composite,
+    name: target.name,
+    clipName: clip.name,
+    dirs: view.dirs,
+    frameCount,
+    frameSize,
+    frameDuration: clip.duration / frameCount,
+    pivots,
+    rootMotion,
+    passes: passes.map(({ pass, canvas }) => ({ pass, canvas })),
+    depthRanges,
+    limbNames: limbNameList(target.limbs),
+    layers: layers.map(({ layer, canvas }) => ({ name: layer.name, bone: layer.bone, canvas })),
+  };
+}
+
+// The character's root stands on the ground at the world origin (the walk is in-place)
+const PIVOT_POINT = new THREE.Vector3(0, 0, 0);
+
+function projectPivot(point: THREE.Vector3, camera: THREE.Camera): [number, number] {
+  const ndc = point.project(camera);
+  const round = (v: number) => Math.round(v * 10000) / 10000;
+  return [round((ndc.x + 1) / 2), round((1 - ndc.y) / 2)];
+}
+
+/**
+ * Renders several clips of one character for a combined packed atlas. All
+ * sheets share the union of the clips' bounds so the orthographic modes frame
+ * every clip alike; only the color sheet is rendered. `targets[0]` is rendered
+ * last so its mixer leaves the character in its own pose.
+ */
+export function renderClipSheets(targets: SpriteTarget[], settings: SpriteSettings): SpriteSheet[] {
+  const union = new THREE.Box3();
+  targets.forEach(t => { if (t.bounds) union.union(t.bounds); });
+  const bounds = union.isEmpty() ? null : union;
+  const colorOnly: SpriteSettings = { ...settings, passes: DEFAULT_SPRITE_SETTINGS.passes, layers: false };
+
+  const sheets = targets.slice(1).map(t => renderSpritesheet({ ...t, bounds }, colorOnly));
+  return [renderSpritesheet({ ...targets[0]!, bounds }, colorOnly), ...sheets];
+}
+
+/** The packed atlas pages and their JSON for `sheets`, named after `name`. */
+export async function packedArtifacts(sheets: SpriteSheet[], settings: SpriteSettings, name: string): Promise<ExportArtifact[]> {
+  const atlas = packSheets(sheets, settings.packing);
+  const artifacts: ExportArtifact[] = [];
+  for (const [i, page] of atlas.pages.entries()) {
+    artifacts.push({ name: packedPageName(name, i), data: await canvasBlob(page) });
+  }
+  artifacts.push({ name: packedAtlasName(name), data: jsonBlob(buildPackedAtlasJSON(atlas, sheets, name)) });
+  return artifacts;
+}
+
+/**
+ * Every file a sprite export writes: the sheet PNG, any extra pass or layer
+ * PNGs, the atlas JSON sidecar, (for layered exports) the layer manifest, the
+ * selected engine import files and — unless clips are packed together by the
+ * caller — the sheet's packed atlas.
+ */
+export async function sheetArtifacts(sheet: SpriteSheet, settings: SpriteSettings): Promise<ExportArtifact[]> {
+  const { name } = sheet;
+  const image = `${name}-sprites.png`;
+  const artifacts: ExportArtifact[] = [{ name: image, data: await canvasBlob(sheet.canvas) }];
+
+  for (const { pass, canvas } of sheet.passes) {
+    artifacts.push({ name: passImageName(image, pass), data: await canvasBlob(canvas) });
+  }
+  for (const { name: layer, canvas } of sheet.layers) {
+    artifacts.push({ name: layerImageName(image, layer), data: await canvasBlob(canvas) });
+  }
+
+  const atlas = `${name}-sprites.json`;
+  const meta = buildAtlasMetadata(sheet, settings.atlasFormat, image);
+  if (meta) artifacts.push({ name: atlas, data: jsonBlob(meta) });
+
+  if (sheet.layers.length > 0) {
+    artifacts.push({ name: `${name}-layers.json`, data: jsonBlob(buildLayerManifest(sheet, image, meta ? atlas : null)) });
+  }
+
+  if (settings.engines.godot) {
+    const tres = new Blob([buildGodotSpriteFrames(sheet, image)], { type: "text/plain" });
+    artifacts.push({ name: godotResourceName(image), data: tres });
+  }
+
+  if (settings.engines.unity) {
+    artifacts.push({ name: unityMetaName(image), data: new Blob([buildUnityMeta(sheet, image)], { type: "text/plain" }) });
+    artifacts.push({ name: unityClipsName(image), data: jsonBlob(buildUnityClipListing(sheet, image)) });
+  }
+
+  if (settings.packing.enabled && !settings.packing.allClips) {
+    artifacts.push(...await packedArtifacts([sheet], settings, name));
+  }
+  return artifacts;
+}
+
+/** Clips packed into one atlas with the exported clip (`packing.allClips`). */
+export interface PackedClips {
+  name: string;           // base name of the combined atlas files
+  others: SpriteTarget[]; // the character's other clips
+}
+
+/**
+ * Renders the sheet and saves everything sheetArtifacts lists as one export,
+ * plus the combined packed atlas when `packed` clips are given.
+ */
+export async function exportSpritesheet(
+  target: SpriteTarget,
+  settings: SpriteSettings = DEFAULT_SPRITE_SETTINGS,
+  packed: PackedClips | null = null,
+): Promise<ExportResult> {
+  const sheet = renderSpritesheet(target, settings);
+  const combined = packed && settings.packing.enabled && settings.packing.allClips
+    ? renderClipSheets([target, ...packed.others], settings)
+    : null;
 
-  composite.toBlob(blob => {
-    if (blob) triggerDownload(blob, "walk-sprites.png");
-  }, "image/png");
+  const artifacts = await sheetArtifacts(sheet, settings);
+  if (packed && combined) artifacts.push(...await packedArtifacts(combined, settings, packed.name));
+  const info = { character: target.character, clip: target.clip.name, kind: "sprites" };
+  return saveExport(info, artifacts);
 }
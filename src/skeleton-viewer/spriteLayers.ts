@@ -0,0 +1,83 @@
+import * as THREE from "three";
+import { strip } from "./boneVisuals";
+import type { SpriteSheet } from "./spriteExport";
+
+/** A separately exported part of the character: the body or one attached accessory. */
+export interface SpriteLayer {
+  name: string;        // "body" or the accessory id
+  bone: string | null; // bone the accessory rides on; null for the body
+  meshes: THREE.Mesh[];
+}
+
+/**
+ * Splits the character's meshes into layers. Anything under an accessory
+ * wrapper (userData.accessory, see attachAccessories) is its own layer;
+ * everything else is the body.
+ */
+export function collectLayers(root: THREE.Object3D): SpriteLayer[] {
+  const body: SpriteLayer = { name: "body", bone: null, meshes: [] };
+  const layers = new Map<string, SpriteLayer>();
+
+  const visit = (obj: THREE.Object3D, layer: SpriteLayer) => {
+    let current = layer;
+    const id = obj.userData.accessory as string | undefined;
+    if (id) {
+      current = layers.get(id) ?? { name: id, bone: obj.parent ? strip(obj.parent.name) : null, meshes: [] };
+      layers.set(id, current);
+    }
+    if (obj instanceof THREE.Mesh) current.meshes.push(obj);
+    obj.children.forEach(c => visit(c, current));
+  };
+  visit(root, body);
+
+  return [body, ...layers.values()];
+}
+
+// Writes depth but no color: hidden layers still occlude the visible one
+const DEPTH_ONLY = new THREE.MeshBasicMaterial({ colorWrite: false });
+
+/**
+ * Leaves only `layer` visible in the color buffer; every other layer is drawn
+ * depth-only so it still hides the parts of `layer` behind it. The occluders
+ * are drawn first (renderOrder -1) — otherwise three.js's depth sort can draw
+ * the visible layer before a mesh in front of it, and a depth-only mesh can't
+ * remove color that is already there. Returns a restore function.
+ */
+export function isolateLayer(layers: SpriteLayer[], layer: SpriteLayer): () => void {
+  const saved = new Map<THREE.Mesh, { material: THREE.Material | THREE.Material[]; renderOrder: number }>();
+  layers.forEach(other => {
+    if (other === layer) return;
+    other.meshes.forEach(mesh => {
+      saved.set(mesh, { material: mesh.material, renderOrder: mesh.renderOrder });
+      mesh.material = DEPTH_ONLY;
+      mesh.renderOrder = -1;
+    });
+  });
+  return () => saved.forEach(({ material, renderOrder }, mesh) => {
+    mesh.material = material;
+    mesh.renderOrder = renderOrder;
+  });
+}
+
+/** File name of a layer sheet written next to the color sheet `image`. */
+export function layerImageName(image: string, layer: string): string {
+  return image.replace(/\.png$/, `-layer-${layer}.png`);
+}
+
+/**
+ * Manifest for a layered export. Every layer sheet has the color sheet's grid,
+ * so the atlas JSON's frame rects apply to all of them; occlusion is already
+ * baked in, so layers can be stacked in any order.
+ */
+export function buildLayerManifest(sheet: SpriteSheet, image: string, atlas: string | null): object {
+  return {
+    name: sheet.name,
+    clip: sheet.clipName,
+    frameSize: sheet.frameSize,
+    frameCount: sheet.frameCount,
+    directions: sheet.dirs.map(d => d.label),
+    atlas,
+    composite: image,
+    layers: sheet.layers.map(({ name, bone }) => ({ name, bone, image: layerImageName(image, name) })),
+  };
+}
@@ -0,0 +1,59 @@
+// Mirrored directions: a direction with `mirrorOf` set is never rendered —
+// its row is the source row with every frame flipped horizontally. Sheets that
+// encode sidedness are fixed up on the way: the normal pass's X flips sign and
+// the limb ID pass swaps left and right limbs.
+
+/** Rewrites a flipped frame's pixels in place (RGBA, row-major). */
+export type MirrorRemap = (data: Uint8ClampedArray) => void;
+
+/** View-space normals: mirroring negates X, i.e. R = 255 - R. */
+export const mirrorNormals: MirrorRemap = data => {
+  for (let i = 0; i < data.length; i += 4) {
+    if (data[i + 3]! > 0) data[i] = 255 - data[i]!;
+  }
+};
+
+/** Limb ID frames (R = limb index + 1): swaps each limb for its counterpart. */
+export function mirrorLimbIdRemap(twins: number[]): MirrorRemap {
+  return data => {
+    for (let i = 0; i < data.length; i += 4) {
+      const id = data[i]!;
+      if (id > 0) data[i] = (twins[id - 1] ?? id - 1) + 1;
+    }
+  };
+}
+
+/** Flips a frame horizontally in place. */
+export function flipFrameX(img: ImageData): void {
+  const { data, width, height } = img;
+  const row = width * 4;
+  for (let y = 0; y < height; y++) {
+    for (let l = y * row, r = l + row - 4; l < r; l += 4, r -= 4) {
+      for (let c = 0; c < 4; c++) {
+        const t = data[l + c]!;
+        data[l + c] = data[r + c]!;
+        data[r + c] = t;
+      }
+    }
+  }
+}
+
+/**
+ * Fills direction row `to` of a grid sheet (columns = frames) with row
+ * `from`, each frame flipped on its own so the frame order is kept.
+ */
+export function mirrorSheetRow(
+  ctx: CanvasRenderingContext2D,
+  frameSize: number,
+  frameCount: number,
+  from: number,
+  to: number,
+  remap?: MirrorRemap,
+): void {
+  for (let fi = 0; fi < frameCount; fi++) {
+    const frame = ctx.getImageData(fi * frameSize, from * frameSize, frameSize, frameSize);
+    flipFrameX(frame);
+    remap?.(frame.data);
+    ctx.putImageData(frame, fi * frameSize, to * frameSize);
+  }
+}
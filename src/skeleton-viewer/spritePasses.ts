@@ -0,0 +1,136 @@
+import * as THREE from "three";
+import { LOOK_TARGET } from "./directions";
+import type { LimbIdPass } from "./limbIdPass";
+
+export type SpritePass = "normal" | "depth" | "limbId";
+
+export const SPRITE_PASSES: { value: SpritePass; label: string }[] = [
+  { value: "normal", label: "Normal" },
+  { value: "depth", label: "Depth" },
+  { value: "limbId", label: "Limb ID" },
+];
+
+export type SpritePassSettings = Record<SpritePass, boolean>;
+
+export const DEFAULT_SPRITE_PASSES: SpritePassSettings = {
+  normal: false,
+  depth: false,
+  limbId: false,
+};
+
+// View-space normal packed to RGB = n * 0.5 + 0.5 (+X right, +Y up, +Z toward the camera)
+const NORMAL_VERT = /* glsl */ `
+  varying vec3 vViewNormal;
+  void main() {
+    vViewNormal = normalize(normalMatrix * normal);
+    gl_Position = projectionMatrix * modelViewMatrix * vec4(position, 1.0);
+  }
+`;
+
+const NORMAL_FRAG = /* glsl */ `
+  varying vec3 vViewNormal;
+  void main() {
+    gl_FragColor = vec4(normalize(vViewNormal) * 0.5 + 0.5, 1.0);
+  }
+`;
+
+// Linear view depth mapped so 1 = uNear (closest) and 0 = uFar
+const DEPTH_VERT = /* glsl */ `
+  varying float vViewDepth;
+  void main() {
+    vec4 viewPos = modelViewMatrix * vec4(position, 1.0);
+    vViewDepth = -viewPos.z;
+    gl_Position = projectionMatrix * viewPos;
+  }
+`;
+
+const DEPTH_FRAG = /* glsl */ `
+  uniform float uNear;
+  uniform float uFar;
+  varying float vViewDepth;
+  void main() {
+    float d = clamp((uFar - vViewDepth) / (uFar - uNear), 0.0, 1.0);
+    gl_FragColor = vec4(d, d, d, 1.0);
+  }
+`;
+
+/** File name of a pass sheet written next to the color sheet `image`. */
+export function passImageName(image: string, pass: SpritePass): string {
+  return image.replace(/\.png$/, `-${pass.toLowerCase()}.png`);
+}
+
+/**
+ * Linear depth range (metres from the camera) that covers the clip bounds for
+ * this camera placement. Written to the metadata so engines can decode depth.
+ */
+export function depthRange(camera: THREE.Camera, bounds: THREE.Box3 | null): [number, number] {
+  const sphere = bounds && !bounds.isEmpty()
+    ? bounds.getBoundingSphere(new THREE.Sphere())
+    : new THREE.Sphere(LOOK_TARGET.clone(), 1.2);
+  const d = camera.position.distanceTo(sphere.center);
+  const round = (v: number) => Math.round(v * 10000) / 10000;
+  return [round(Math.max(0.001, d - sphere.radius)), round(d + sphere.radius)];
+}
+
+export interface SpritePassRenderer {
+  /**
+   * Renders `pass` for the current pose into a top-left-origin RGBA frame.
+   * Limb ID frames store limbId+1 in R (0 = background or non-limb), A = coverage.
+   */
+  render(
+    pass: SpritePass,
+    renderer: THREE.WebGLRenderer,
+    scene: THREE.Scene,
+    camera: THREE.Camera,
+    frameSize: number,
+    range: [number, number],
+  ): ImageData;
+  dispose(): void;
+}
+
+export function createSpritePassRenderer(idPass: LimbIdPass): SpritePassRenderer {
+  const normalMat = new THREE.ShaderMaterial({ vertexShader: NORMAL_VERT, fragmentShader: NORMAL_FRAG });
+  const depthMat = new THREE.ShaderMaterial({
+    vertexShader: DEPTH_VERT,
+    fragmentShader: DEPTH_FRAG,
+    uniforms: { uNear: { value: 0 }, uFar: { value: 1 } },
+  });
+
+  return {
+    render(pass, renderer, scene, camera, frameSize, range) {
+      if (pass === "limbId") {
+        const { ids } = idPass.render(renderer, scene, camera, frameSize, frameSize);
+        const img = new ImageData(frameSize, frameSize);
+        for (let p = 0; p < ids.length; p++) {
+          img.data[p * 4] = ids[p]!;
+          img.data[p * 4 + 3] = ids[p]! > 0 ? 255 : 0;
+        }
+        return img;
+      }
+
+      depthMat.uniforms.uNear!.value = range[0];
+      depthMat.uniforms.uFar!.value = range[1];
+      const prevOverride = scene.overrideMaterial;
+      scene.overrideMaterial = pass === "normal" ? normalMat : depthMat;
+      renderer.render(scene, camera);
+      scene.overrideMaterial = prevOverride;
+
+      const gl = renderer.getContext();
+      const raw = new Uint8Array(frameSize * frameSize * 4);
+      gl.readPixels(0, 0, frameSize, frameSize, gl.RGBA, gl.UNSIGNED_BYTE, raw);
+
+      // WebGL framebuffer is bottom-up; Canvas 2D is top-down — flip Y
+      const img = new ImageData(frameSize, frameSize);
+      const row = frameSize * 4;
+      for (let y = 0; y < frameSize; y++) {
+        img.data.set(raw.subarray((frameSize - 1 - y) * row, (frameSize - y) * row), y * row);
+      }
+      return img;
+    },
+
+    dispose() {
+      normalMat.dispose();
+      depthMat.dispose();
+    },
+  };
+}
@@ -0,0 +1,40 @@
+import { DEFAULT_DIRECTION_SET, type DirectionSetConfig } from "./directions";
+import type { ProjectionMode } from "./projection";
+import type { AtlasFormat } from "./atlasMeta";
+import { DEFAULT_PIXEL_POST, type PixelPostSettings } from "./pixelPost";
+import { DEFAULT_OUTLINE, type OutlineSettings } from "./outline";
+import { DEFAULT_SPRITE_PASSES, type SpritePassSettings } from "./spritePasses";
+import { DEFAULT_ENGINE_TARGETS, type EngineTargetSettings } from "./engineExport";
+import { DEFAULT_PACK_SETTINGS, type PackSettings } from "./atlasPacker";
+
+// Settings shared by the live PixelView preview and exportSpritesheet so the
+// preview always shows exactly what the export will render.
+export interface SpriteSettings {
+  frameCount: number;
+  frameSize: number;
+  directions: DirectionSetConfig;
+  projection: ProjectionMode;
+  atlasFormat: AtlasFormat; // JSON sidecar written next to the exported PNG
+  post: PixelPostSettings;
+  outline: OutlineSettings; // drawn after post, so the outline color is never quantized
+  rootMotion: boolean;      // write Hips travel per frame / direction to the atlas JSON
+  passes: SpritePassSettings; // extra sheets (normal, depth, limb ID) with the color sheet's layout
+  layers: boolean;            // also write the body and each accessory as separate occluded sheets
+  engines: EngineTargetSettings; // engine-native import files written next to the PNG
+  packing: PackSettings;         // trimmed, deduplicated multi-page atlas next to the grid
+}
+
+export const DEFAULT_SPRITE_SETTINGS: SpriteSettings = {
+  frameCount: 8,
+  frameSize: 64,
+  directions: DEFAULT_DIRECTION_SET,
+  projection: "perspective",
+  atlasFormat: "texturepacker-hash",
+  post: DEFAULT_PIXEL_POST,
+  outline: DEFAULT_OUTLINE,
+  rootMotion: false,
+  passes: DEFAULT_SPRITE_PASSES,
+  layers: false,
+  engines: DEFAULT_ENGINE_TARGETS,
+  packing: DEFAULT_PACK_SETTINGS,
+};